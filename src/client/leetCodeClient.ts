@@ -0,0 +1,479 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as unescapeJS from "unescape-js";
+import { Endpoint, IDailyChallenge, IProblem, ISolution, ISolutionQuery, ISubmissionResult, ProblemState, SubmissionStatus } from "../shared";
+import { parseErrorLocations, parseSubmissionStatus } from "../utils/resultUtils";
+import { IHttpResponse, ITransport, nodeTransport } from "./transport";
+
+export interface ILeetCodeCredentials {
+    session: string;
+    csrfToken: string;
+}
+
+export interface IQuestionDetail {
+    questionId: string;
+    questionFrontendId: string;
+    title: string;
+    titleSlug: string;
+    content: string;
+    difficulty: string;
+    likes: number;
+    dislikes: number;
+    isPaidOnly: boolean;
+    exampleTestcases: string;
+    sampleTestCase: string;
+    codeSnippets: Array<{ lang: string, langSlug: string, code: string }>;
+    topicTags: Array<{ name: string, slug: string }>;
+    hints: string[];
+    // A JSON string of the similar questions
+    similarQuestions: string;
+}
+
+// The response of "/submissions/detail/{id}/check/", the fields are filled once the state is "SUCCESS"
+export interface ICheckResponse {
+    state: "PENDING" | "STARTED" | "SUCCESS";
+    status_msg?: string;
+    // Whether the output of the test run is the expected one
+    correct_answer?: boolean;
+    total_correct?: number | null;
+    total_testcases?: number | null;
+    status_runtime?: string;
+    runtime_percentile?: number | null;
+    status_memory?: string;
+    memory_percentile?: number | null;
+    input?: string;
+    last_testcase?: string;
+    code_output?: string | string[];
+    code_answer?: string[];
+    expected_output?: string;
+    expected_code_answer?: string[];
+    std_output?: string;
+    code_output_std?: string[];
+    compile_error?: string;
+    full_compile_error?: string;
+    runtime_error?: string;
+    full_runtime_error?: string;
+}
+
+interface IHttpError extends Error {
+    statusCode?: number;
+}
+
+interface IGraphQLResponse<T> {
+    data: T;
+    errors?: Array<{ message: string }>;
+}
+
+interface IProblemListResponse {
+    stat_status_pairs: Array<{
+        stat: {
+            frontend_question_id: number;
+            question__title: string;
+            question__title_slug: string;
+            total_acs: number;
+            total_submitted: number;
+        };
+        difficulty: { level: number };
+        paid_only: boolean;
+        is_favor: boolean;
+        status: string | null;
+    }>;
+}
+
+interface IDailyRecord {
+    date: string;
+    question: { questionFrontendId: string, title: string, titleSlug: string, difficulty: string };
+}
+
+interface ITopicNode {
+    id: number;
+    title: string;
+    post: {
+        content: string;
+        voteCount: number;
+        creationDate: number;
+        author: { username: string } | null;
+    };
+}
+
+const questionQuery: string = `
+    query questionData($titleSlug: String!) {
+        question(titleSlug: $titleSlug) {
+            questionId
+            questionFrontendId
+            title
+            titleSlug
+            content
+            difficulty
+            likes
+            dislikes
+            isPaidOnly
+            exampleTestcases
+            sampleTestCase
+            codeSnippets { lang langSlug code }
+            topicTags { name slug }
+            hints
+            similarQuestions
+        }
+    }
+`;
+
+const dailyQuery: string = `
+    query questionOfToday {
+        activeDailyCodingChallengeQuestion {
+            date
+            question { questionFrontendId title titleSlug difficulty }
+        }
+    }
+`;
+
+const cnDailyQuery: string = `
+    query questionOfToday {
+        todayRecord {
+            date
+            question { questionFrontendId title titleSlug difficulty }
+        }
+    }
+`;
+
+const solutionsQuery: string = `
+    query questionTopicsList($questionId: String!, $orderBy: TopicSortingOption, $skip: Int, $first: Int!, $tags: [String!]) {
+        questionTopicsList(questionId: $questionId, orderBy: $orderBy, skip: $skip, first: $first, tags: $tags) {
+            totalNum
+            edges {
+                node {
+                    id
+                    title
+                    post { content voteCount creationDate author { username } }
+                }
+            }
+        }
+    }
+`;
+
+/**
+ * An in-process client of the LeetCode GraphQL and REST endpoints, all the requests go through the transport.
+ */
+export class LeetCodeClient {
+    private credentials: ILeetCodeCredentials | undefined;
+    private endpoint: string = Endpoint.LeetCode;
+    // The cache of the questions, which are fetched at most once per session for each endpoint
+    private questions: Map<string, Promise<IQuestionDetail>> = new Map<string, Promise<IQuestionDetail>>();
+    // Problem id -> title slug, which is filled by listing the problems
+    private titleSlugs: Map<string, string> = new Map<string, string>();
+    // Returns true if the session is renewed, then the failed request is retried once
+    private sessionExpiredHandler: (() => Promise<boolean>) | undefined;
+
+    constructor(private transport: ITransport = nodeTransport) { }
+
+    public setTransport(transport: ITransport): void {
+        this.transport = transport;
+    }
+
+    public setCredentials(credentials: ILeetCodeCredentials | undefined): void {
+        this.credentials = credentials;
+    }
+
+    public setSessionExpiredHandler(handler: () => Promise<boolean>): void {
+        this.sessionExpiredHandler = handler;
+    }
+
+    public hasCredentials(): boolean {
+        return !!this.credentials;
+    }
+
+    public setEndpoint(endpoint: string): void {
+        if (endpoint !== this.endpoint) {
+            this.endpoint = endpoint;
+            this.titleSlugs.clear();
+        }
+    }
+
+    public get baseUrl(): string {
+        return this.endpoint === Endpoint.LeetCodeCN ? "https://leetcode-cn.com" : "https://leetcode.com";
+    }
+
+    public async listProblems(): Promise<IProblem[]> {
+        const data: IProblemListResponse = await this.request<IProblemListResponse>("GET", "/api/problems/all/");
+        const problems: IProblem[] = (data.stat_status_pairs || []).map((pair: IProblemListResponse["stat_status_pairs"][0]): IProblem => {
+            const id: string = String(pair.stat.frontend_question_id);
+            this.titleSlugs.set(id, pair.stat.question__title_slug);
+            return {
+                id,
+                name: pair.stat.question__title,
+                difficulty: ["Easy", "Medium", "Hard"][pair.difficulty.level - 1] || "Unknown",
+                passRate: pair.stat.total_submitted ? `${(pair.stat.total_acs * 100 / pair.stat.total_submitted).toFixed(1)} %` : "0.0 %",
+                locked: !!pair.paid_only,
+                isFavorite: !!pair.is_favor,
+                state: pair.status === "ac" ? ProblemState.AC : (pair.status === "notac" ? ProblemState.NotAC : ProblemState.Unknown),
+                companies: ["Unknown"],
+                tags: ["Unknown"],
+            };
+        });
+        return problems.sort((a: IProblem, b: IProblem) => Number(a.id) - Number(b.id));
+    }
+
+    // The problem list is fetched once to resolve the title slugs
+    public async getTitleSlug(problemId: string): Promise<string> {
+        if (!this.titleSlugs.has(problemId)) {
+            await this.listProblems();
+        }
+        const titleSlug: string | undefined = this.titleSlugs.get(problemId);
+        if (!titleSlug) {
+            throw new Error(`The problem ${problemId} does not exist.`);
+        }
+        return titleSlug;
+    }
+
+    // The reverse of the title slug lookup, returns undefined if the problem is not in the list
+    public async getProblemId(titleSlug: string): Promise<string | undefined> {
+        let problemId: string | undefined = this.findProblemId(titleSlug);
+        if (!problemId) {
+            await this.listProblems();
+            problemId = this.findProblemId(titleSlug);
+        }
+        return problemId;
+    }
+
+    public async getQuestion(titleSlug: string): Promise<IQuestionDetail> {
+        const key: string = `${this.endpoint}/${titleSlug}`;
+        let question: Promise<IQuestionDetail> | undefined = this.questions.get(key);
+        if (!question) {
+            question = this.fetchQuestion(titleSlug);
+            this.questions.set(key, question);
+            // The failed request is not cached, so that it could be retried
+            question.catch(() => this.questions.delete(key));
+        }
+        return await question;
+    }
+
+    // The daily question of the current endpoint, which doesn't require signing in
+    public async getDailyChallenge(): Promise<IDailyChallenge> {
+        let record: IDailyRecord | undefined;
+        if (this.endpoint === Endpoint.LeetCodeCN) {
+            const data: { todayRecord: IDailyRecord[] | null } = await this.graphql<{ todayRecord: IDailyRecord[] | null }>(cnDailyQuery, {});
+            record = (data.todayRecord || [])[0];
+        } else {
+            const data: { activeDailyCodingChallengeQuestion: IDailyRecord | null } =
+                await this.graphql<{ activeDailyCodingChallengeQuestion: IDailyRecord | null }>(dailyQuery, {});
+            record = data.activeDailyCodingChallengeQuestion || undefined;
+        }
+        if (!record || !record.question) {
+            throw new Error("The daily question is not available.");
+        }
+        return {
+            date: record.date,
+            problemId: record.question.questionFrontendId,
+            name: record.question.title,
+            titleSlug: record.question.titleSlug,
+            difficulty: record.question.difficulty,
+        };
+    }
+
+    // The top solutions in the discussions which are tagged with the language
+    public async getSolutions(query: ISolutionQuery, count: number): Promise<ISolution[]> {
+        const question: IQuestionDetail = await this.getQuestion(query.titleSlug);
+        const data: { questionTopicsList: { edges: Array<{ node: ITopicNode }> } | null } =
+            await this.graphql<{ questionTopicsList: { edges: Array<{ node: ITopicNode }> } | null }>(solutionsQuery, {
+                questionId: question.questionId,
+                orderBy: query.order,
+                skip: 0,
+                first: count,
+                tags: [query.language],
+            });
+        const edges: Array<{ node: ITopicNode }> = data.questionTopicsList ? data.questionTopicsList.edges : [];
+        return edges.map(({ node }: { node: ITopicNode }): ISolution => ({
+            title: node.title,
+            url: `${this.baseUrl}/problems/${query.titleSlug}/discuss/${node.id}`,
+            lang: query.language,
+            author: node.post.author ? node.post.author.username : "Anonymous",
+            votes: String(node.post.voteCount),
+            date: node.post.creationDate ? new Date(node.post.creationDate * 1000).toISOString().slice(0, 10) : undefined,
+            body: unescapeJS(node.post.content || ""),
+        }));
+    }
+
+    public async graphql<T>(query: string, variables: {}): Promise<T> {
+        const res: IGraphQLResponse<T> = await this.request<IGraphQLResponse<T>>("POST", "/graphql", { query, variables });
+        if (res.errors && res.errors.length > 0) {
+            throw new Error(`GraphQL request failed: ${res.errors.map((e: { message: string }) => e.message).join(", ")}`);
+        }
+        return res.data;
+    }
+
+    // Run the code with the input, the example test cases of the question are used if the input is not given
+    public async testSolution(problemId: string, language: string, code: string, input?: string): Promise<ISubmissionResult> {
+        const question: IQuestionDetail = await this.getQuestion(await this.getTitleSlug(problemId));
+        const dataInput: string = input || question.exampleTestcases || question.sampleTestCase;
+        const result: ISubmissionResult = await this.waitForResult(await this.interpret(question, language, code, dataInput));
+        if (!result.input) {
+            result.input = dataInput;
+            result.details["Your Input"] = [dataInput];
+        }
+        return result;
+    }
+
+    public async submitSolution(problemId: string, language: string, code: string): Promise<ISubmissionResult> {
+        const question: IQuestionDetail = await this.getQuestion(await this.getTitleSlug(problemId));
+        return await this.waitForResult(await this.submit(question, language, code));
+    }
+
+    // Run the code with the custom test cases, returns the id to poll the result
+    public async interpret(question: IQuestionDetail, language: string, code: string, dataInput: string): Promise<string> {
+        const res: { interpret_id: string } = await this.request<{ interpret_id: string }>("POST", `/problems/${question.titleSlug}/interpret_solution/`, {
+            data_input: dataInput,
+            lang: language,
+            question_id: question.questionId,
+            typed_code: code,
+        }, `/problems/${question.titleSlug}/`);
+        return String(res.interpret_id);
+    }
+
+    // Submit the code, returns the id to poll the result
+    public async submit(question: IQuestionDetail, language: string, code: string): Promise<string> {
+        const res: { submission_id: number } = await this.request<{ submission_id: number }>("POST", `/problems/${question.titleSlug}/submit/`, {
+            lang: language,
+            question_id: question.questionId,
+            typed_code: code,
+        }, `/problems/${question.titleSlug}/`);
+        return String(res.submission_id);
+    }
+
+    public async check(id: string): Promise<ICheckResponse> {
+        return await this.request<ICheckResponse>("GET", `/submissions/detail/${id}/check/`);
+    }
+
+    // Poll the result of an interpretation or a submission until it's judged
+    public async waitForResult(id: string, interval: number = 1000, timeout: number = 60000): Promise<ISubmissionResult> {
+        const deadline: number = Date.now() + timeout;
+        while (Date.now() < deadline) {
+            const res: ICheckResponse = await this.check(id);
+            if (res.state === "SUCCESS") {
+                return toSubmissionResult(res);
+            }
+            await new Promise((resolve: () => void): NodeJS.Timer => setTimeout(resolve, interval));
+        }
+        throw new Error(`Timed out while waiting for the result of ${id}.`);
+    }
+
+    private findProblemId(titleSlug: string): string | undefined {
+        for (const [problemId, slug] of this.titleSlugs) {
+            if (slug === titleSlug) {
+                return problemId;
+            }
+        }
+        return undefined;
+    }
+
+    private async fetchQuestion(titleSlug: string): Promise<IQuestionDetail> {
+        const data: { question: IQuestionDetail | null } = await this.graphql<{ question: IQuestionDetail | null }>(questionQuery, { titleSlug });
+        if (!data.question) {
+            throw new Error(`The question "${titleSlug}" does not exist.`);
+        }
+        return data.question;
+    }
+
+    // The rejected credentials are renewed in the same way as the expired sessions of the CLI
+    private async request<T>(method: "GET" | "POST", path: string, body?: {}, referer: string = "/"): Promise<T> {
+        const authenticated: boolean = !!this.credentials;
+        try {
+            return await this.send<T>(method, path, body, referer);
+        } catch (error) {
+            if (!authenticated || !isAuthFailure(error) || !this.sessionExpiredHandler || !await this.sessionExpiredHandler()) {
+                throw error;
+            }
+            return await this.send<T>(method, path, body, referer);
+        }
+    }
+
+    private async send<T>(method: "GET" | "POST", path: string, body: {} | undefined, referer: string): Promise<T> {
+        const headers: { [key: string]: string } = {
+            "Referer": `${this.baseUrl}${referer}`,
+            "Origin": this.baseUrl,
+            "X-Requested-With": "XMLHttpRequest",
+        };
+        if (body) {
+            headers["Content-Type"] = "application/json";
+        }
+        if (this.credentials) {
+            headers.Cookie = `LEETCODE_SESSION=${this.credentials.session}; csrftoken=${this.credentials.csrfToken}`;
+            headers["X-CSRFToken"] = this.credentials.csrfToken;
+        }
+        const res: IHttpResponse = await this.transport.request({
+            method,
+            url: `${this.baseUrl}${path}`,
+            headers,
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+            const error: IHttpError = new Error(`Request "${method} ${path}" failed with status code "${res.statusCode}".`);
+            error.statusCode = res.statusCode;
+            throw error;
+        }
+        try {
+            return JSON.parse(res.body);
+        } catch (error) {
+            throw new Error(`Request "${method} ${path}" returned an invalid response: ${res.body.slice(0, 200)}`);
+        }
+    }
+}
+
+// LeetCode responds 401 or 403 when the session in the cookie is expired
+function isAuthFailure(error: IHttpError): boolean {
+    return error.statusCode === 401 || error.statusCode === 403;
+}
+
+// Convert the response of the check API to the same result model as the one parsed from the CLI output
+export function toSubmissionResult(res: ICheckResponse): ISubmissionResult {
+    let status: SubmissionStatus = parseSubmissionStatus(res.status_msg || "");
+    // The test run is "Accepted" as long as it runs without errors, even if the output is not the expected one
+    if (status === SubmissionStatus.Accepted && res.correct_answer === false) {
+        status = SubmissionStatus.WrongAnswer;
+    }
+    const result: ISubmissionResult = {
+        status,
+        accepted: status === SubmissionStatus.Accepted,
+        messages: [res.status_msg || SubmissionStatus.Unknown],
+        details: {},
+    };
+    if (typeof res.total_testcases === "number") {
+        result.passedCases = res.total_correct || 0;
+        result.totalCases = res.total_testcases;
+        result.messages.push(`${res.total_correct}/${res.total_testcases} cases passed`);
+    }
+    if (res.status_runtime && res.status_runtime !== "N/A") {
+        result.runtime = res.status_runtime;
+    }
+    if (typeof res.runtime_percentile === "number") {
+        result.runtimePercentile = res.runtime_percentile;
+    }
+    if (res.status_memory && res.status_memory !== "N/A") {
+        result.memory = res.status_memory;
+    }
+    if (typeof res.memory_percentile === "number") {
+        result.memoryPercentile = res.memory_percentile;
+    }
+    const details: Array<[string, string | string[] | undefined]> = [
+        ["Your Input", res.last_testcase || res.input],
+        ["Output", res.code_output || res.code_answer],
+        ["Expected Answer", res.expected_output || res.expected_code_answer],
+        ["Stdout", res.std_output || res.code_output_std],
+    ];
+    for (const [key, value] of details) {
+        const text: string = Array.isArray(value) ? value.join("\n") : (value || "");
+        if (text.trim()) {
+            result.details[key] = [text.trim()];
+        }
+    }
+    result.input = result.details["Your Input"] && result.details["Your Input"][0];
+    result.actualOutput = result.details.Output && result.details.Output[0];
+    result.expectedOutput = result.details["Expected Answer"] && result.details["Expected Answer"][0];
+    result.stdout = result.details.Stdout && result.details.Stdout[0];
+    result.compileError = res.full_compile_error || res.compile_error || undefined;
+    result.runtimeError = res.full_runtime_error || res.runtime_error || undefined;
+    result.errorLocations = parseErrorLocations([result.compileError, result.runtimeError].join("\n"));
+    return result;
+}
+
+export const leetCodeClient: LeetCodeClient = new LeetCodeClient();
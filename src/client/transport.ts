@@ -0,0 +1,127 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import * as url from "url";
+
+export interface IHttpRequest {
+    method: "GET" | "POST";
+    url: string;
+    headers: { [key: string]: string };
+    body?: string;
+}
+
+export interface IHttpResponse {
+    statusCode: number;
+    headers: { [key: string]: string | string[] | undefined };
+    body: string;
+    // The undecoded body, which is needed by the binary content like images
+    rawBody?: Buffer;
+}
+
+// Node.js supports the "createConnection" option, which is missing in the typings
+interface IRequestOptions extends https.RequestOptions {
+    createConnection?: () => net.Socket;
+}
+
+// The transport sends the raw requests of the LeetCode client, replace it with a fake one to test against a local server
+export interface ITransport {
+    request(request: IHttpRequest): Promise<IHttpResponse>;
+}
+
+// The request is aborted if no data is received within the timeout, so that a stalled connection never keeps the caller pending
+const defaultTimeout: number = 30 * 1000;
+
+export class NodeTransport implements ITransport {
+    // The proxy configured in VS Code, which is shared by the LeetCode client and the CLI
+    private proxy: string | undefined;
+
+    constructor(private timeout: number = defaultTimeout) { }
+
+    public setProxy(proxy: string | undefined): void {
+        this.proxy = proxy;
+    }
+
+    public async request(request: IHttpRequest): Promise<IHttpResponse> {
+        const target: url.Url = url.parse(request.url);
+        const isHttps: boolean = target.protocol === "https:";
+        const options: IRequestOptions = {
+            method: request.method,
+            hostname: target.hostname,
+            port: target.port ? Number(target.port) : undefined,
+            path: target.path,
+            headers: Object.assign({}, request.headers, request.body ? { "Content-Length": String(Buffer.byteLength(request.body)) } : {}),
+        };
+        const proxy: string | undefined = this.proxy;
+        if (proxy && isHttps) {
+            // Tunnel the https request through the proxy, the request is still encrypted end to end
+            const socket: net.Socket = await connectTunnel(proxy, target, this.timeout);
+            options.createConnection = (): net.Socket => tls.connect({ socket, servername: target.hostname });
+        } else if (proxy) {
+            // A plain http request is sent to the proxy with the absolute url
+            const proxyUrl: url.Url = url.parse(proxy);
+            options.hostname = proxyUrl.hostname;
+            options.port = proxyUrl.port ? Number(proxyUrl.port) : 80;
+            options.path = request.url;
+        }
+        return await new Promise((resolve: (res: IHttpResponse) => void, reject: (e: Error) => void): void => {
+            const onResponse: (res: http.IncomingMessage) => void = (res: http.IncomingMessage): void => {
+                const chunks: Buffer[] = [];
+                res.on("data", (chunk: Buffer) => chunks.push(chunk));
+                res.on("end", () => {
+                    const rawBody: Buffer = Buffer.concat(chunks);
+                    resolve({
+                        statusCode: res.statusCode || 0,
+                        headers: res.headers,
+                        body: rawBody.toString("utf8"),
+                        rawBody,
+                    });
+                });
+                res.on("error", reject);
+            };
+            const req: http.ClientRequest = isHttps ? https.request(options, onResponse) : http.request(options, onResponse);
+            req.on("error", reject);
+            req.setTimeout(this.timeout, () => {
+                req.abort();
+                reject(new Error(`Request "${request.method} ${request.url}" timed out after ${this.timeout} ms.`));
+            });
+            if (request.body) {
+                req.write(request.body);
+            }
+            req.end();
+        });
+    }
+}
+
+async function connectTunnel(proxy: string, target: url.Url, timeout: number): Promise<net.Socket> {
+    const proxyUrl: url.Url = url.parse(proxy);
+    const destination: string = `${target.hostname}:${target.port || 443}`;
+    return await new Promise((resolve: (socket: net.Socket) => void, reject: (e: Error) => void): void => {
+        const req: http.ClientRequest = http.request({
+            method: "CONNECT",
+            hostname: proxyUrl.hostname,
+            port: proxyUrl.port ? Number(proxyUrl.port) : 80,
+            path: destination,
+            headers: proxyUrl.auth ? { "Proxy-Authorization": `Basic ${Buffer.from(proxyUrl.auth).toString("base64")}` } : {},
+        });
+        req.on("connect", (res: http.IncomingMessage, socket: net.Socket) => {
+            if (res.statusCode !== 200) {
+                socket.destroy();
+                reject(new Error(`Failed to connect to ${destination} through the proxy ${proxyUrl.host}, status code: ${res.statusCode}.`));
+                return;
+            }
+            resolve(socket);
+        });
+        req.on("error", reject);
+        req.setTimeout(timeout, () => {
+            req.abort();
+            reject(new Error(`Connecting to ${destination} through the proxy ${proxyUrl.host} timed out after ${timeout} ms.`));
+        });
+        req.end();
+    });
+}
+
+export const nodeTransport: NodeTransport = new NodeTransport();
@@ -1,9 +1,13 @@
 // Copyright (c) jdneo. All rights reserved.
 // Licensed under the MIT license.
 
+import * as path from "path";
 import * as vscode from "vscode";
+import { contestManager } from "../contest/contestManager";
 import { explorerNodeManager } from "../explorer/explorerNodeManager";
 import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { solutionIndex } from "../solutions/solutionIndex";
+import { getSolutionLanguages } from "../utils/problemUtils";
 import { getEditorShortcuts } from "../utils/settingUtils";
 
 export class CustomCodeLensProvider implements vscode.CodeLensProvider {
@@ -18,7 +22,7 @@ export class CustomCodeLensProvider implements vscode.CodeLensProvider {
         this.onDidChangeCodeLensesEmitter.fire();
     }
 
-    public provideCodeLenses(document: vscode.TextDocument): vscode.ProviderResult<vscode.CodeLens[]> {
+    public async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[] | undefined> {
         const shortcuts: string[] = getEditorShortcuts();
         if (!shortcuts) {
             return;
@@ -63,6 +67,14 @@ export class CustomCodeLensProvider implements vscode.CodeLensProvider {
             }));
         }
 
+        if (shortcuts.indexOf("tests") >= 0) {
+            codeLens.push(new vscode.CodeLens(range, {
+                title: "Edit Tests",
+                command: "leetcode.editTestCases",
+                arguments: [document.uri],
+            }));
+        }
+
         if (shortcuts.indexOf("star") >= 0 && node) {
             codeLens.push(new vscode.CodeLens(range, {
                 title: node.isFavorite ? "Unstar" : "Star",
@@ -71,7 +83,7 @@ export class CustomCodeLensProvider implements vscode.CodeLensProvider {
             }));
         }
 
-        if (shortcuts.indexOf("solution") >= 0) {
+        if (shortcuts.indexOf("solution") >= 0 && !contestManager.isRunning()) {
             codeLens.push(new vscode.CodeLens(range, {
                 title: "Solution",
                 command: "leetcode.showSolution",
@@ -87,6 +99,25 @@ export class CustomCodeLensProvider implements vscode.CodeLensProvider {
             }));
         }
 
+        if (shortcuts.indexOf("languages") >= 0 && nodeId) {
+            // The solutions of the same problem in other languages
+            const otherFiles: string[] = solutionIndex.getSolutionFiles(nodeId).filter((file: string) => file !== document.uri.fsPath);
+            for (const file of otherFiles) {
+                const [language] = await getSolutionLanguages([file]);
+                codeLens.push(new vscode.CodeLens(range, {
+                    title: language || path.basename(file),
+                    command: "vscode.open",
+                    tooltip: `Open ${vscode.workspace.asRelativePath(file)}`,
+                    arguments: [vscode.Uri.file(file), vscode.ViewColumn.Two],
+                }));
+            }
+            codeLens.push(new vscode.CodeLens(range, {
+                title: "Another Language",
+                command: "leetcode.solveInAnotherLanguage",
+                arguments: [document.uri],
+            }));
+        }
+
         return codeLens;
     }
 }
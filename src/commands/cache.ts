@@ -1,12 +1,14 @@
 // Copyright (c) jdneo. All rights reserved.
 // Licensed under the MIT license.
 
-import { leetCodeExecutor } from "../leetCodeExecutor";
+import { problemCache } from "../explorer/problemCache";
+import { getProblemProvider } from "../providers/problemProvider";
 import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
 
 export async function deleteCache(): Promise<void> {
     try {
-        await leetCodeExecutor.deleteCache();
+        await getProblemProvider().deleteCache();
+        await problemCache.clear();
     } catch (error) {
         await promptForOpenOutputChannel("Failed to delete cache. Please open the output channel for details.", DialogType.error);
     }
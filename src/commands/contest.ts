@@ -0,0 +1,121 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as _ from "lodash";
+import * as vscode from "vscode";
+import { contestManager } from "../contest/contestManager";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { leetCodeManager } from "../leetCodeManager";
+import { IContest, IQuickItemEx, ProblemState } from "../shared";
+import { DialogOptions, promptForSignIn } from "../utils/uiUtils";
+import { leetCodeContestProvider } from "../webview/leetCodeContestProvider";
+
+// A contest lasts at most a day, far below the limit of the timer (about 24.8 days), which fires at once beyond it
+const maxContestMinutes: number = 24 * 60;
+
+interface IContestSetting {
+    easy: number;
+    medium: number;
+    hard: number;
+    minutes: number;
+}
+
+export async function startVirtualContest(): Promise<void> {
+    if (!leetCodeManager.getUser()) {
+        promptForSignIn();
+        return;
+    }
+    if (contestManager.isRunning()) {
+        const choice: vscode.MessageItem | undefined = await vscode.window.showWarningMessage(
+            "A virtual contest is in progress. Do you want to end it and start a new one?",
+            DialogOptions.yes,
+            DialogOptions.no,
+        );
+        if (choice !== DialogOptions.yes) {
+            return;
+        }
+        await contestManager.finish();
+    }
+    const setting: IContestSetting | undefined = await pickContestSetting();
+    if (!setting) {
+        return;
+    }
+    const problems: LeetCodeNode[] = [
+        ...pickProblems("Easy", setting.easy),
+        ...pickProblems("Medium", setting.medium),
+        ...pickProblems("Hard", setting.hard),
+    ];
+    if (problems.length === 0) {
+        vscode.window.showWarningMessage("No problem is available for the contest, please refresh the explorer first.");
+        return;
+    }
+    const contest: IContest = await contestManager.start(problems, setting.minutes * 60 * 1000);
+    leetCodeContestProvider.show(contest);
+}
+
+export async function endContest(): Promise<void> {
+    if (!contestManager.isRunning()) {
+        return;
+    }
+    const choice: vscode.MessageItem | undefined = await vscode.window.showWarningMessage(
+        "Are you sure to end the virtual contest now?",
+        DialogOptions.yes,
+        DialogOptions.no,
+    );
+    if (choice === DialogOptions.yes) {
+        await contestManager.finish();
+    }
+}
+
+export async function showContest(): Promise<void> {
+    const contest: IContest | undefined = contestManager.getContest();
+    if (!contest) {
+        vscode.window.showInformationMessage("There is no virtual contest yet, you can start one with the command \"LeetCode: Start Virtual Contest\".");
+        return;
+    }
+    leetCodeContestProvider.show(contest);
+}
+
+async function pickContestSetting(): Promise<IContestSetting | undefined> {
+    const picks: Array<IQuickItemEx<IContestSetting | undefined>> = [
+        { label: "Weekly Contest", description: "1 Easy, 2 Medium, 1 Hard in 90 minutes", value: { easy: 1, medium: 2, hard: 1, minutes: 90 } },
+        { label: "Warm Up", description: "2 Easy, 1 Medium in 45 minutes", value: { easy: 2, medium: 1, hard: 0, minutes: 45 } },
+        { label: "Hard Mode", description: "2 Medium, 2 Hard in 120 minutes", value: { easy: 0, medium: 2, hard: 2, minutes: 120 } },
+        { label: "Custom...", description: "Specify the number of problems of each difficulty and the duration", value: undefined },
+    ];
+    const choice: IQuickItemEx<IContestSetting | undefined> | undefined = await vscode.window.showQuickPick(picks, {
+        placeHolder: "Select the problem mix of the virtual contest",
+    });
+    if (!choice) {
+        return undefined;
+    }
+    if (choice.value) {
+        return choice.value;
+    }
+    const input: string | undefined = await vscode.window.showInputBox({
+        prompt: "Enter the number of Easy, Medium and Hard problems and the duration in minutes, separated by spaces",
+        placeHolder: "e.g. 1 2 1 90",
+        validateInput: (s: string): string | undefined => parseContestSetting(s)
+            ? undefined
+            : `Please enter 4 non-negative integers with the duration up to ${maxContestMinutes} minutes, e.g. "1 2 1 90".`,
+    });
+    return input ? parseContestSetting(input) : undefined;
+}
+
+function parseContestSetting(input: string): IContestSetting | undefined {
+    const numbers: number[] = input.trim().split(/[\s,]+/).map(Number);
+    if (numbers.length !== 4 || numbers.some((n: number) => !Number.isInteger(n) || n < 0)) {
+        return undefined;
+    }
+    const [easy, medium, hard, minutes] = numbers;
+    return easy + medium + hard > 0 && minutes > 0 && minutes <= maxContestMinutes ? { easy, medium, hard, minutes } : undefined;
+}
+
+// Prefer the problems which have not been accepted yet, the locked problems are skipped
+function pickProblems(difficulty: string, count: number): LeetCodeNode[] {
+    const candidates: LeetCodeNode[] = explorerNodeManager.getAllNodes(true /* includeHidden */)
+        .filter((node: LeetCodeNode) => node.difficulty === difficulty && !node.locked);
+    const [unsolved, solved] = _.partition(candidates, (node: LeetCodeNode) => node.state !== ProblemState.AC);
+    return _.sampleSize(unsolved, count).concat(_.sampleSize(solved, Math.max(0, count - unsolved.length)));
+}
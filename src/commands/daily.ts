@@ -0,0 +1,31 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import { dailyChallengeManager } from "../daily/dailyChallengeManager";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { leetCodeManager } from "../leetCodeManager";
+import { IDailyChallenge } from "../shared";
+import { getWorkspaceConfiguration } from "../utils/settingUtils";
+import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
+import { previewProblem } from "./show";
+
+export async function showDailyChallenge(): Promise<void> {
+    try {
+        const challenge: IDailyChallenge = await dailyChallengeManager.getChallenge();
+        await previewProblem(explorerNodeManager.getDailyNode(challenge));
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel("Failed to show the daily challenge. Please open the output channel for details.", DialogType.error);
+    }
+}
+
+// Open the daily challenge once a day, unless it's solved already
+export async function openDailyChallengeOnStartup(): Promise<void> {
+    if (!getWorkspaceConfiguration().get<boolean>("dailyChallenge.openOnStartup", false) || !leetCodeManager.getUser()) {
+        return;
+    }
+    if (await dailyChallengeManager.shouldOpenOnStartup()) {
+        await showDailyChallenge();
+    }
+}
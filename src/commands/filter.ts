@@ -0,0 +1,162 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as _ from "lodash";
+import * as vscode from "vscode";
+import { explorerFilter, problemStateNames } from "../explorer/explorerFilter";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { IProblemFilter, IQuickItemEx, ProblemState, SortingStrategy } from "../shared";
+
+export async function filterExplorer(): Promise<void> {
+    // Keep showing the menu until it's dismissed, every change is applied to the explorer right away
+    while (true) {
+        const filter: IProblemFilter = explorerFilter.getFilter();
+        const picks: Array<IQuickItemEx<(filter: IProblemFilter) => Promise<boolean>>> = [
+            { label: "Difficulty", description: describeList(filter.difficulties), value: pickDifficulties },
+            { label: "State", description: describeList(filter.states.map((state: ProblemState) => problemStateNames.get(state)!)), value: pickStates },
+            { label: "Include Tags", description: describeList(filter.includedTags.map(_.startCase)), value: pickKeys("includedTags", explorerNodeManager.getTags()) },
+            { label: "Exclude Tags", description: describeList(filter.excludedTags.map(_.startCase)), value: pickKeys("excludedTags", explorerNodeManager.getTags()) },
+            {
+                label: "Include Companies",
+                description: describeList(filter.includedCompanies.map(_.startCase)),
+                value: pickKeys("includedCompanies", explorerNodeManager.getCompanies()),
+            },
+            {
+                label: "Exclude Companies",
+                description: describeList(filter.excludedCompanies.map(_.startCase)),
+                value: pickKeys("excludedCompanies", explorerNodeManager.getCompanies()),
+            },
+            { label: "Pass Rate", description: `${filter.minPassRate}% - ${filter.maxPassRate}%`, value: inputPassRate },
+            { label: "Favorites Only", description: filter.favoriteOnly ? "Yes" : "No", value: toggleFavoriteOnly },
+            { label: "Locked", description: filter.locked === undefined ? "Any" : (filter.locked ? "Locked only" : "Unlocked only"), value: pickLocked },
+            { label: "Sort By", description: `${filter.sortingStrategy}${filter.descending ? " (descending)" : ""}`, value: pickSortingStrategy },
+            { label: "$(clear-all) Reset", description: "", value: resetFilter },
+        ];
+        const choice: IQuickItemEx<(filter: IProblemFilter) => Promise<boolean>> | undefined = await vscode.window.showQuickPick(picks, {
+            placeHolder: "Select the condition to edit, press Esc to close",
+        });
+        if (!choice) {
+            return;
+        }
+        if (await choice.value(filter)) {
+            await explorerFilter.setFilter(filter);
+        }
+    }
+}
+
+// Each of the following functions edits the filter in place, and returns false if the edit is cancelled
+
+async function pickDifficulties(filter: IProblemFilter): Promise<boolean> {
+    const difficulties: string[] | undefined = await pickMany(["Easy", "Medium", "Hard"].map((difficulty: string) => ({
+        label: difficulty,
+        picked: filter.difficulties.indexOf(difficulty) >= 0,
+        value: difficulty,
+    })), "Select the difficulties to show, select none to show all");
+    if (!difficulties) {
+        return false;
+    }
+    filter.difficulties = difficulties;
+    return true;
+}
+
+async function pickStates(filter: IProblemFilter): Promise<boolean> {
+    const states: ProblemState[] | undefined = await pickMany(Array.from(problemStateNames.keys()).map((state: ProblemState) => ({
+        label: problemStateNames.get(state)!,
+        picked: filter.states.indexOf(state) >= 0,
+        value: state,
+    })), "Select the states to show, select none to show all");
+    if (!states) {
+        return false;
+    }
+    filter.states = states;
+    return true;
+}
+
+function pickKeys(field: "includedTags" | "excludedTags" | "includedCompanies" | "excludedCompanies", keys: string[]): (filter: IProblemFilter) => Promise<boolean> {
+    return async (filter: IProblemFilter): Promise<boolean> => {
+        const picked: string[] | undefined = await pickMany(keys.map((key: string) => ({
+            label: _.startCase(key),
+            picked: filter[field].indexOf(key) >= 0,
+            value: key,
+        })), field.startsWith("included") ? "Only show the problems having all the selected items" : "Hide the problems having any of the selected items");
+        if (!picked) {
+            return false;
+        }
+        filter[field] = picked;
+        return true;
+    };
+}
+
+async function inputPassRate(filter: IProblemFilter): Promise<boolean> {
+    const value: string | undefined = await vscode.window.showInputBox({
+        prompt: "Enter the range of the pass rate, e.g. \"30-60\"",
+        value: `${filter.minPassRate}-${filter.maxPassRate}`,
+        validateInput: (s: string): string | undefined => parsePassRate(s) ? undefined : "Please enter the range as \"<min>-<max>\", between 0 and 100.",
+    });
+    const range: number[] | undefined = value ? parsePassRate(value) : undefined;
+    if (!range) {
+        return false;
+    }
+    [filter.minPassRate, filter.maxPassRate] = range;
+    return true;
+}
+
+async function toggleFavoriteOnly(filter: IProblemFilter): Promise<boolean> {
+    filter.favoriteOnly = !filter.favoriteOnly;
+    return true;
+}
+
+async function pickLocked(filter: IProblemFilter): Promise<boolean> {
+    const picks: Array<IQuickItemEx<boolean | undefined>> = [
+        { label: "Any", value: undefined },
+        { label: "Locked only", value: true },
+        { label: "Unlocked only", value: false },
+    ];
+    const choice: IQuickItemEx<boolean | undefined> | undefined = await vscode.window.showQuickPick(picks);
+    if (!choice) {
+        return false;
+    }
+    filter.locked = choice.value;
+    return true;
+}
+
+async function pickSortingStrategy(filter: IProblemFilter): Promise<boolean> {
+    const picks: Array<IQuickItemEx<[SortingStrategy, boolean]>> = [];
+    for (const strategy of [SortingStrategy.Id, SortingStrategy.Name, SortingStrategy.PassRate, SortingStrategy.Difficulty]) {
+        picks.push(
+            { label: strategy, description: "Ascending", value: [strategy, false] },
+            { label: strategy, description: "Descending", value: [strategy, true] },
+        );
+    }
+    const choice: IQuickItemEx<[SortingStrategy, boolean]> | undefined = await vscode.window.showQuickPick(picks, {
+        placeHolder: "Sort the problems by",
+    });
+    if (!choice) {
+        return false;
+    }
+    [filter.sortingStrategy, filter.descending] = choice.value;
+    return true;
+}
+
+async function resetFilter(_filter: IProblemFilter): Promise<boolean> {
+    await explorerFilter.reset();
+    return false;
+}
+
+async function pickMany<T>(picks: Array<IQuickItemEx<T>>, placeHolder: string): Promise<T[] | undefined> {
+    const choices: Array<IQuickItemEx<T>> | undefined = await vscode.window.showQuickPick(picks, { placeHolder, canPickMany: true });
+    return choices && choices.map((choice: IQuickItemEx<T>) => choice.value);
+}
+
+function parsePassRate(value: string): number[] | undefined {
+    const match: RegExpMatchArray | null = value.trim().match(/^(\d+(?:\.\d+)?)\s*%?\s*-\s*(\d+(?:\.\d+)?)\s*%?$/);
+    if (!match) {
+        return undefined;
+    }
+    const range: number[] = [Number(match[1]), Number(match[2])];
+    return range[0] <= range[1] && range[1] <= 100 ? range : undefined;
+}
+
+function describeList(items: string[]): string {
+    return items.length > 0 ? items.join(", ") : "All";
+}
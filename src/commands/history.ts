@@ -0,0 +1,17 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
+import { leetCodeHistoryProvider } from "../webview/leetCodeHistoryProvider";
+
+export async function showHistory(node?: LeetCodeNode): Promise<void> {
+    if (!node) {
+        return;
+    }
+    try {
+        await leetCodeHistoryProvider.show(node);
+    } catch (error) {
+        await promptForOpenOutputChannel("Failed to show the submission history. Please open the output channel for details.", DialogType.error);
+    }
+}
@@ -0,0 +1,187 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { problemListManager } from "../lists/problemListManager";
+import { Category, IProblemList, IQuickItemEx } from "../shared";
+import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
+
+export async function createList(): Promise<string | undefined> {
+    const name: string | undefined = await inputListName("Enter the name of the new list");
+    if (!name) {
+        return undefined;
+    }
+    try {
+        await problemListManager.createList(name);
+        return name;
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel(`Failed to create the list. ${error.message}`, DialogType.error);
+        return undefined;
+    }
+}
+
+export async function renameList(node?: LeetCodeNode): Promise<void> {
+    const name: string | undefined = await getListName(node, "Select the list to rename");
+    if (!name) {
+        return;
+    }
+    const newName: string | undefined = await inputListName("Enter the new name of the list", name);
+    if (!newName || newName === name) {
+        return;
+    }
+    try {
+        await problemListManager.renameList(name, newName);
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel(`Failed to rename the list. ${error.message}`, DialogType.error);
+    }
+}
+
+export async function deleteList(node?: LeetCodeNode): Promise<void> {
+    const name: string | undefined = await getListName(node, "Select the list to delete");
+    if (!name) {
+        return;
+    }
+    const choice: vscode.MessageItem | undefined = await vscode.window.showWarningMessage(
+        `Are you sure to delete the list "${name}"?`,
+        { modal: true },
+        { title: "Delete" },
+    );
+    if (!choice) {
+        return;
+    }
+    try {
+        await problemListManager.deleteList(name);
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel(`Failed to delete the list. ${error.message}`, DialogType.error);
+    }
+}
+
+export async function addToList(node?: LeetCodeNode): Promise<void> {
+    if (!node) {
+        return;
+    }
+    const picks: Array<IQuickItemEx<string | undefined>> = problemListManager.getLists()
+        .filter((list: IProblemList) => list.problems.indexOf(node.id) < 0)
+        .map((list: IProblemList) => ({ label: list.name, description: `${list.problems.length} problem(s)`, value: list.name }));
+    picks.push({ label: "$(plus) New List...", value: undefined });
+    const choice: IQuickItemEx<string | undefined> | undefined = await vscode.window.showQuickPick(picks, {
+        placeHolder: `Add problem ${node.id} to`,
+    });
+    if (!choice) {
+        return;
+    }
+    const name: string | undefined = choice.value || await createList();
+    if (!name) {
+        return;
+    }
+    try {
+        await problemListManager.addProblem(name, node.id);
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel(`Failed to add the problem to the list. ${error.message}`, DialogType.error);
+    }
+}
+
+export async function removeFromList(node?: LeetCodeNode): Promise<void> {
+    if (!node) {
+        return;
+    }
+    const lists: IProblemList[] = problemListManager.getListsOfProblem(node.id);
+    if (lists.length === 0) {
+        vscode.window.showInformationMessage(`Problem ${node.id} is not in any list.`);
+        return;
+    }
+    const choices: Array<IQuickItemEx<string>> | undefined = await vscode.window.showQuickPick(
+        lists.map((list: IProblemList) => ({ label: list.name, picked: lists.length === 1, value: list.name })),
+        { placeHolder: `Remove problem ${node.id} from`, canPickMany: true },
+    );
+    if (!choices) {
+        return;
+    }
+    try {
+        for (const choice of choices) {
+            await problemListManager.removeProblem(choice.value, node.id);
+        }
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel(`Failed to remove the problem from the list. ${error.message}`, DialogType.error);
+    }
+}
+
+export async function importLists(): Promise<void> {
+    const uris: vscode.Uri[] | undefined = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { JSON: ["json"] },
+        openLabel: "Import",
+    });
+    if (!uris || uris.length === 0) {
+        return;
+    }
+    try {
+        const names: string[] = await problemListManager.importLists(uris[0].fsPath);
+        vscode.window.showInformationMessage(`Imported the list(s): ${names.join(", ")}.`);
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel(`Failed to import the lists. ${error.message}`, DialogType.error);
+    }
+}
+
+export async function exportList(node?: LeetCodeNode): Promise<void> {
+    const name: string | undefined = await getListName(node, "Select the list to export");
+    if (!name) {
+        return;
+    }
+    const uri: vscode.Uri | undefined = await vscode.window.showSaveDialog({
+        defaultUri: vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0
+            ? vscode.Uri.file(path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, `${name}.json`))
+            : undefined,
+        filters: { JSON: ["json"] },
+        saveLabel: "Export",
+    });
+    if (!uri) {
+        return;
+    }
+    try {
+        await problemListManager.exportList(name, uri.fsPath);
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel(`Failed to export the list. ${error.message}`, DialogType.error);
+    }
+}
+
+// Get the list name from the list node in the explorer, or ask the user to pick one if the command is run from the command palette
+async function getListName(node: LeetCodeNode | undefined, placeHolder: string): Promise<string | undefined> {
+    if (node && node.id.startsWith(`${Category.Lists}.`)) {
+        return node.id.substring(Category.Lists.length + 1);
+    }
+    const lists: IProblemList[] = problemListManager.getLists();
+    if (lists.length === 0) {
+        vscode.window.showInformationMessage("There is no problem list yet.");
+        return undefined;
+    }
+    return await vscode.window.showQuickPick(lists.map((list: IProblemList) => list.name), { placeHolder });
+}
+
+async function inputListName(prompt: string, value?: string): Promise<string | undefined> {
+    const name: string | undefined = await vscode.window.showInputBox({
+        prompt,
+        value,
+        ignoreFocusOut: true,
+        validateInput: (s: string): string | undefined => {
+            if (!s.trim()) {
+                return "The list name must not be empty.";
+            }
+            if (s.trim() !== value && problemListManager.getList(s.trim())) {
+                return `The list "${s.trim()}" already exists.`;
+            }
+            return undefined;
+        },
+    });
+    return name && name.trim();
+}
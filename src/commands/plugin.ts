@@ -2,50 +2,62 @@
 // Licensed under the MIT license.
 
 import * as vscode from "vscode";
-import { leetCodeExecutor } from "../leetCodeExecutor";
-import { IQuickItemEx } from "../shared";
+import { leetCodeClient } from "../client/leetCodeClient";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { leetCodeManager } from "../leetCodeManager";
+import { getProblemProvider } from "../providers/problemProvider";
+import { IProblem, IQuickItemEx } from "../shared";
 import { Endpoint } from "../shared";
-import { DialogType, promptForOpenOutputChannel, promptForSignIn } from "../utils/uiUtils";
-import { deleteCache } from "./cache";
+import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
 
-export async function switchEndpoint(): Promise<void> {
-    const isCnEnabled: boolean = getLeetCodeEndpoint() === Endpoint.LeetCodeCN;
-    const picks: Array<IQuickItemEx<string>> = [];
-    picks.push(
-        {
-            label: `${isCnEnabled ? "" : "$(check) "}LeetCode`,
-            description: "leetcode.com",
-            detail: `Enable LeetCode US`,
-            value: Endpoint.LeetCode,
-        },
-        {
-            label: `${isCnEnabled ? "$(check) " : ""}力扣`,
-            description: "leetcode-cn.com",
-            detail: `启用中国版 LeetCode`,
-            value: Endpoint.LeetCodeCN,
-        },
-    );
-    const choice: IQuickItemEx<string> | undefined = await vscode.window.showQuickPick(picks);
-    if (!choice || choice.value === getLeetCodeEndpoint()) {
+// The endpoint is switched for the workspace if it's opened, the login of the other endpoint is kept
+export async function switchEndpoint(endpoint?: string, problem?: IProblem): Promise<void> {
+    if (!endpoint) {
+        const isCnEnabled: boolean = getLeetCodeEndpoint() === Endpoint.LeetCodeCN;
+        const picks: Array<IQuickItemEx<string>> = [];
+        picks.push(
+            {
+                label: `${isCnEnabled ? "" : "$(check) "}LeetCode`,
+                description: "leetcode.com",
+                detail: `Enable LeetCode US`,
+                value: Endpoint.LeetCode,
+            },
+            {
+                label: `${isCnEnabled ? "$(check) " : ""}力扣`,
+                description: "leetcode-cn.com",
+                detail: `启用中国版 LeetCode`,
+                value: Endpoint.LeetCodeCN,
+            },
+        );
+        const choice: IQuickItemEx<string> | undefined = await vscode.window.showQuickPick(picks);
+        endpoint = choice && choice.value;
+    }
+    if (!endpoint) {
         return;
     }
-    const leetCodeConfig: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration("leetcode");
-    try {
-        const endpoint: string = choice.value;
-        await leetCodeExecutor.switchEndpoint(endpoint);
-        await leetCodeConfig.update("endpoint", endpoint, true /* UserSetting */);
+    if (endpoint !== getLeetCodeEndpoint()) {
+        const leetCodeConfig: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration("leetcode");
+        const target: vscode.ConfigurationTarget = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        // The endpoint is applied by the listener of the configuration change
+        await leetCodeConfig.update("endpoint", endpoint, target);
         vscode.window.showInformationMessage(`Switched the endpoint to ${endpoint}`);
-    } catch (error) {
-        await promptForOpenOutputChannel("Failed to switch endpoint. Please open the output channel for details.", DialogType.error);
     }
+    if (problem) {
+        await vscode.commands.executeCommand("leetcode.previewProblem", problem);
+    }
+}
 
+// Apply the endpoint in the configuration, the login and the problem cache of each endpoint are kept separately
+export async function applyEndpoint(): Promise<void> {
+    leetCodeClient.setEndpoint(getLeetCodeEndpoint());
     try {
-        await vscode.commands.executeCommand("leetcode.signout");
-        await deleteCache();
-        await promptForSignIn();
+        await getProblemProvider().switchEndpoint(getLeetCodeEndpoint());
     } catch (error) {
-        await promptForOpenOutputChannel("Failed to sign in. Please open the output channel for details.", DialogType.error);
+        await promptForOpenOutputChannel("Failed to switch endpoint. Please open the output channel for details.", DialogType.error);
+        return;
     }
+    explorerNodeManager.dispose();
+    await leetCodeManager.getLoginStatus();
 }
 
 export function getLeetCodeEndpoint(): string {
@@ -0,0 +1,28 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { contestManager } from "../contest/contestManager";
+import { reviewManager } from "../review/reviewManager";
+import { IQuickItemEx } from "../shared";
+
+export async function showQuickMenu(): Promise<void> {
+    const picks: Array<IQuickItemEx<string>> = [];
+    if (contestManager.isRunning()) {
+        picks.push({ label: "$(watch) Show Virtual Contest", value: "leetcode.showContest" });
+    }
+    picks.push(
+        { label: "$(organization) Manage Sessions", value: "leetcode.manageSessions" },
+        { label: "$(star) Show Daily Challenge", value: "leetcode.showDailyChallenge" },
+        { label: "$(graph) Show Statistics", value: "leetcode.showStatistics" },
+        {
+            label: "$(history) Review Next Problem",
+            description: `${reviewManager.getDueItems().length} due`,
+            value: "leetcode.reviewNext",
+        },
+    );
+    const choice: IQuickItemEx<string> | undefined = await vscode.window.showQuickPick(picks, { placeHolder: "LeetCode" });
+    if (choice) {
+        await vscode.commands.executeCommand(choice.value);
+    }
+}
@@ -0,0 +1,40 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { leetCodeManager } from "../leetCodeManager";
+import { IReviewItem, reviewManager } from "../review/reviewManager";
+import { getWorkspaceConfiguration } from "../utils/settingUtils";
+import { promptForSignIn } from "../utils/uiUtils";
+import { showProblemInternal } from "./show";
+
+export async function reviewNext(): Promise<void> {
+    if (!leetCodeManager.getUser()) {
+        promptForSignIn();
+        return;
+    }
+    const item: IReviewItem | undefined = reviewManager.getDueItems()[0];
+    if (!item) {
+        const nextItem: IReviewItem | undefined = reviewManager.getNextItem();
+        vscode.window.showInformationMessage(nextItem
+            ? `No problem is due for review. The next one will be due on ${new Date(nextItem.due).toLocaleDateString()}.`
+            : "No problem is scheduled for review yet. Problems will be scheduled after they are accepted.",
+        );
+        return;
+    }
+    const node: LeetCodeNode | undefined = explorerNodeManager.getNodeById(item.problemId);
+    if (!node) {
+        vscode.window.showErrorMessage(`Failed to resolve the problem with id: ${item.problemId}.`);
+        return;
+    }
+    await showProblemInternal(node);
+}
+
+export async function rateRecall(problemId: string): Promise<void> {
+    if (!getWorkspaceConfiguration().get<boolean>("enableReview", true)) {
+        return;
+    }
+    await reviewManager.promptForRating(problemId);
+}
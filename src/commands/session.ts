@@ -2,9 +2,9 @@
 // Licensed under the MIT license.
 
 import * as vscode from "vscode";
-import { leetCodeExecutor } from "../leetCodeExecutor";
 import { leetCodeManager } from "../leetCodeManager";
-import { IQuickItemEx } from "../shared";
+import { getProblemProvider } from "../providers/problemProvider";
+import { IQuickItemEx, ISession } from "../shared";
 import { DialogOptions, DialogType, promptForOpenOutputChannel, promptForSignIn } from "../utils/uiUtils";
 
 export async function getSessionList(): Promise<ISession[]> {
@@ -13,23 +13,7 @@ export async function getSessionList(): Promise<ISession[]> {
         promptForSignIn();
         return [];
     }
-    const result: string = await leetCodeExecutor.listSessions();
-    const lines: string[] = result.split("\n");
-    const sessions: ISession[] = [];
-    const reg: RegExp = /(.?)\s*(\d+)\s+(.*)\s+(\d+ \(\s*\d+\.\d+ %\))\s+(\d+ \(\s*\d+\.\d+ %\))/;
-    for (const line of lines) {
-        const match: RegExpMatchArray | null = line.match(reg);
-        if (match && match.length === 6) {
-            sessions.push({
-                active: !!(match[1].trim()),
-                id: match[2].trim(),
-                name: match[3].trim(),
-                acQuestions: match[4].trim(),
-                acSubmits: match[5].trim(),
-            });
-        }
-    }
-    return sessions;
+    return await getProblemProvider().listSessions();
 }
 
 export async function manageSessions(): Promise<void> {
@@ -46,7 +30,7 @@ export async function manageSessions(): Promise<void> {
         return;
     }
     try {
-        await leetCodeExecutor.enableSession((choice.value as ISession).id);
+        await getProblemProvider().enableSession((choice.value as ISession).id);
         vscode.window.showInformationMessage(`Successfully switched to session '${choice.label}'.`);
         await vscode.commands.executeCommand("leetcode.refreshExplorer");
     } catch (error) {
@@ -98,7 +82,7 @@ async function createSession(): Promise<void> {
         return;
     }
     try {
-        await leetCodeExecutor.createSession(session);
+        await getProblemProvider().createSession(session);
         vscode.window.showInformationMessage("New session created, you can switch to it by clicking the status bar.");
     } catch (error) {
         await promptForOpenOutputChannel("Failed to create session. Please open the output channel for details.", DialogType.error);
@@ -141,15 +125,7 @@ async function deleteSession(): Promise<void> {
     });
 
     if (confirm === "yes") {
-        await leetCodeExecutor.deleteSession(selectedSession.id);
+        await getProblemProvider().deleteSession(selectedSession.id);
         vscode.window.showInformationMessage("The session has been successfully deleted.");
     }
 }
-
-export interface ISession {
-    active: boolean;
-    id: string;
-    name: string;
-    acQuestions: string;
-    acSubmits: string;
-}
@@ -1,25 +1,29 @@
 // Copyright (c) jdneo. All rights reserved.
 // Licensed under the MIT license.
 
+import * as fse from "fs-extra";
 import * as _ from "lodash";
 import * as path from "path";
-import * as unescapeJS from "unescape-js";
 import * as vscode from "vscode";
+import { contestManager } from "../contest/contestManager";
 import { explorerNodeManager } from "../explorer/explorerNodeManager";
 import { LeetCodeNode } from "../explorer/LeetCodeNode";
 import { leetCodeChannel } from "../leetCodeChannel";
-import { leetCodeExecutor } from "../leetCodeExecutor";
 import { leetCodeManager } from "../leetCodeManager";
-import { IProblem, IQuickItemEx, languages, ProblemState } from "../shared";
-import { genFileExt, genFileName, getNodeIdFromFile } from "../utils/problemUtils";
+import { getProblemProvider } from "../providers/problemProvider";
+import { Endpoint, IProblem, IQuickItemEx, languages, ProblemState, SolutionOrder } from "../shared";
+import { solutionIndex } from "../solutions/solutionIndex";
+import { isGeneratedDescriptionFile, writeDescriptionFile } from "../utils/descriptionUtils";
+import { genFileName, getLanguageFromFile, getNodeIdFromFile, getSolutionLanguages, parseTitleSlug, resolveRelativePath } from "../utils/problemUtils";
 import * as settingUtils from "../utils/settingUtils";
-import { IDescriptionConfiguration } from "../utils/settingUtils";
+import { IDescriptionConfiguration, IDescriptionFileConfiguration } from "../utils/settingUtils";
 import { DialogOptions, DialogType, openSettingsEditor, promptForOpenOutputChannel, promptForSignIn, promptHintMessage } from "../utils/uiUtils";
 import { getActiveFilePath, selectWorkspaceFolder } from "../utils/workspaceUtils";
 import * as wsl from "../utils/wslUtils";
 import { leetCodePreviewProvider } from "../webview/leetCodePreviewProvider";
 import { leetCodeSolutionProvider } from "../webview/leetCodeSolutionProvider";
 import * as list from "./list";
+import { getLeetCodeEndpoint } from "./plugin";
 
 export async function previewProblem(input: IProblem | vscode.Uri, isSideMode: boolean = false): Promise<void> {
     let node: IProblem;
@@ -42,7 +46,7 @@ export async function previewProblem(input: IProblem | vscode.Uri, isSideMode: b
         node = input;
     }
 
-    const descString: string = await leetCodeExecutor.getDescription(node.id);
+    const descString: string = await getProblemProvider().getDescription(node.id);
     leetCodePreviewProvider.show(descString, node, isSideMode);
 }
 
@@ -78,13 +82,23 @@ export async function searchProblem(): Promise<void> {
 }
 
 export async function showSolution(input: LeetCodeNode | vscode.Uri): Promise<void> {
+    if (contestManager.isRunning()) {
+        vscode.window.showInformationMessage("The solutions are not available during the virtual contest.");
+        return;
+    }
     let problemInput: string | undefined;
+    let problemId: string | undefined;
     if (input instanceof LeetCodeNode) { // Triggerred from explorer
         problemInput = input.id;
+        problemId = input.id;
     } else if (input instanceof vscode.Uri) { // Triggerred from Code Lens/context menu
         problemInput = `"${input.fsPath}"`;
+        problemId = await getNodeIdFromFile(input.fsPath);
     } else if (!input) { // Triggerred from command
         problemInput = await getActiveFilePath();
+        if (problemInput && vscode.window.activeTextEditor) {
+            problemId = await getNodeIdFromFile(vscode.window.activeTextEditor.document.uri.fsPath);
+        }
     }
 
     if (!problemInput) {
@@ -97,11 +111,23 @@ export async function showSolution(input: LeetCodeNode | vscode.Uri): Promise<vo
         return;
     }
     try {
-        const solution: string = await leetCodeExecutor.showSolution(problemInput, language);
-        leetCodeSolutionProvider.show(unescapeJS(solution));
+        // The discussions of leetcode-cn.com have a different API, where only the top voted solution is fetched by the CLI
+        if (problemId && getLeetCodeEndpoint() === Endpoint.LeetCode) {
+            const descString: string = await getProblemProvider().getDescription(problemId);
+            const node: IProblem | undefined = explorerNodeManager.getNodeById(problemId);
+            await leetCodeSolutionProvider.showSolutions({
+                problemName: node ? node.name : problemId,
+                titleSlug: parseTitleSlug(descString),
+                language,
+                order: SolutionOrder.Votes,
+            });
+        } else {
+            const solution: string = await getProblemProvider().getSolution(problemInput, language);
+            leetCodeSolutionProvider.show(solution);
+        }
     } catch (error) {
         leetCodeChannel.appendLine(error.toString());
-        await promptForOpenOutputChannel("Failed to fetch the top voted solution. Please open the output channel for details.", DialogType.error);
+        await promptForOpenOutputChannel("Failed to fetch the solutions. Please open the output channel for details.", DialogType.error);
     }
 }
 
@@ -131,43 +157,25 @@ async function fetchProblemLanguage(): Promise<string | undefined> {
     return language;
 }
 
-async function showProblemInternal(node: IProblem): Promise<void> {
+export async function showProblemInternal(node: IProblem): Promise<void> {
     try {
-        const language: string | undefined = await fetchProblemLanguage();
-        if (!language) {
-            return;
-        }
-
-        const leetCodeConfig: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration("leetcode");
-        const workspaceFolder: string = await selectWorkspaceFolder();
-        if (!workspaceFolder) {
+        const descriptionConfig: IDescriptionConfiguration = settingUtils.getDescriptionConfiguration();
+        let finalPath: string | undefined = await pickLocalSolution(node);
+        if (finalPath === undefined) {
             return;
         }
+        if (!finalPath) {
+            const language: string | undefined = await fetchProblemLanguage();
+            if (!language) {
+                return;
+            }
 
-        const fileFolder: string = leetCodeConfig
-            .get<string>(`filePath.${language}.folder`, leetCodeConfig.get<string>(`filePath.default.folder`, ""))
-            .trim();
-        const fileName: string = leetCodeConfig
-            .get<string>(
-                `filePath.${language}.filename`,
-                leetCodeConfig.get<string>(`filePath.default.filename`) || genFileName(node, language),
-            )
-            .trim();
-
-        let finalPath: string = path.join(workspaceFolder, fileFolder, fileName);
-
-        if (finalPath) {
-            finalPath = await resolveRelativePath(finalPath, node, language);
+            finalPath = await resolveSolutionPath(node, language);
             if (!finalPath) {
-                leetCodeChannel.appendLine("Showing problem canceled by user.");
                 return;
             }
+            await generateSolutionFile(node, language, finalPath);
         }
-
-        finalPath = wsl.useWsl() ? await wsl.toWinPath(finalPath) : finalPath;
-
-        const descriptionConfig: IDescriptionConfiguration = settingUtils.getDescriptionConfiguration();
-        await leetCodeExecutor.showProblem(node, language, finalPath, descriptionConfig.showInComment);
         const promises: any[] = [
             vscode.window.showTextDocument(vscode.Uri.file(finalPath), { preview: false, viewColumn: vscode.ViewColumn.One }),
             promptHintMessage(
@@ -187,6 +195,181 @@ async function showProblemInternal(node: IProblem): Promise<void> {
     }
 }
 
+export async function solveInAnotherLanguage(input?: LeetCodeNode | vscode.Uri): Promise<void> {
+    try {
+        let node: IProblem | undefined;
+        let currentFile: string | undefined;
+        if (input instanceof LeetCodeNode) { // Triggerred from explorer
+            node = input;
+        } else { // Triggerred from Code Lens/command
+            const editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+            currentFile = input instanceof vscode.Uri ? input.fsPath : (editor && editor.document.uri.fsPath);
+            if (!currentFile) {
+                return;
+            }
+            const id: string = await getNodeIdFromFile(currentFile);
+            node = explorerNodeManager.getNodeById(id);
+            if (!node) {
+                vscode.window.showErrorMessage(`Failed to resolve the problem with id: ${id}.`);
+                return;
+            }
+        }
+
+        const localFiles: string[] = _.union(currentFile ? [currentFile] : [], solutionIndex.getSolutionFiles(node.id));
+        const solvedLanguages: string[] = await getSolutionLanguages(localFiles);
+        const language: string | undefined = await vscode.window.showQuickPick(
+            languages.filter((lang: string) => solvedLanguages.indexOf(lang) < 0),
+            {
+                placeHolder: solvedLanguages.length > 0 ? `Select another language, solved locally in: ${solvedLanguages.join(", ")}` : "Select the language you want to use",
+                ignoreFocusOut: true,
+            },
+        );
+        if (!language) {
+            return;
+        }
+        const finalPath: string | undefined = await resolveSolutionPath(node, language);
+        if (!finalPath) {
+            return;
+        }
+        await generateSolutionFile(node, language, finalPath);
+
+        // Open the existing solution and the new one side by side
+        const existingFile: string | undefined = localFiles.find((file: string) => file !== finalPath);
+        if (existingFile) {
+            await vscode.window.showTextDocument(vscode.Uri.file(existingFile), { preview: false, viewColumn: vscode.ViewColumn.One });
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(finalPath), {
+            preview: false,
+            viewColumn: existingFile ? vscode.ViewColumn.Two : vscode.ViewColumn.One,
+        });
+    } catch (error) {
+        await promptForOpenOutputChannel(`${error} Please open the output channel for details.`, DialogType.error);
+    }
+}
+
+export async function exportDescription(input?: LeetCodeNode | vscode.Uri): Promise<void> {
+    try {
+        let node: IProblem | undefined;
+        let solutionPath: string | undefined;
+        let language: string | undefined;
+        if (input instanceof LeetCodeNode) { // Triggerred from explorer
+            node = input;
+            language = await fetchProblemLanguage();
+            solutionPath = language ? await resolveSolutionPath(node, language) : undefined;
+        } else { // Triggerred from context menu/command
+            const editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+            solutionPath = input instanceof vscode.Uri ? input.fsPath : (editor && editor.document.uri.fsPath);
+            if (solutionPath) {
+                const id: string = await getNodeIdFromFile(solutionPath);
+                node = explorerNodeManager.getNodeById(id);
+                if (!node) {
+                    vscode.window.showErrorMessage(`Failed to resolve the problem with id: ${id}.`);
+                    return;
+                }
+                language = await getLanguageFromFile(solutionPath);
+            }
+        }
+        if (!node || !solutionPath || !language) {
+            return;
+        }
+        const descriptionPath: string | undefined = await exportDescriptionInternal(node, solutionPath, language, true /* overwrite */);
+        if (descriptionPath) {
+            await vscode.commands.executeCommand("markdown.showPreview", vscode.Uri.file(descriptionPath));
+        }
+    } catch (error) {
+        leetCodeChannel.appendLine(error.toString());
+        await promptForOpenOutputChannel("Failed to export the problem description. Please open the output channel for details.", DialogType.error);
+    }
+}
+
+// Offer to open the solution files found in the workspace, an empty string is returned to create a new one
+async function pickLocalSolution(node: IProblem): Promise<string | undefined> {
+    const files: string[] = solutionIndex.getSolutionFiles(node.id);
+    if (files.length === 0) {
+        return "";
+    }
+    const picks: Array<IQuickItemEx<string>> = files.map((file: string) => ({
+        label: `$(file-code) ${path.basename(file)}`,
+        description: vscode.workspace.asRelativePath(path.dirname(file)),
+        value: file,
+    }));
+    picks.push({ label: "$(new-file) Create a new solution file", value: "" });
+    const choice: IQuickItemEx<string> | undefined = await vscode.window.showQuickPick(picks, {
+        placeHolder: "Local solutions are found for this problem, select one to open",
+    });
+    return choice ? choice.value : undefined;
+}
+
+// Resolve the path of the solution file from the "leetcode.filePath" setting, undefined is returned if it's canceled by the user
+async function resolveSolutionPath(node: IProblem, language: string): Promise<string | undefined> {
+    const leetCodeConfig: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration("leetcode");
+    const workspaceFolder: string = await selectWorkspaceFolder();
+    if (!workspaceFolder) {
+        return undefined;
+    }
+
+    const fileFolder: string = leetCodeConfig
+        .get<string>(`filePath.${language}.folder`, leetCodeConfig.get<string>(`filePath.default.folder`, ""))
+        .trim();
+    const fileName: string = leetCodeConfig
+        .get<string>(
+            `filePath.${language}.filename`,
+            leetCodeConfig.get<string>(`filePath.default.filename`) || genFileName(node, language),
+        )
+        .trim();
+
+    let finalPath: string = path.join(workspaceFolder, fileFolder, fileName);
+
+    if (finalPath) {
+        finalPath = await resolveRelativePath(finalPath, node, language);
+        if (!finalPath) {
+            leetCodeChannel.appendLine("Showing problem canceled by user.");
+            return undefined;
+        }
+    }
+
+    return wsl.useWsl() ? await wsl.toWinPath(finalPath) : finalPath;
+}
+
+// Generate the code template if the solution file doesn't exist, and the description file if it's enabled
+async function generateSolutionFile(node: IProblem, language: string, filePath: string): Promise<void> {
+    if (!await fse.pathExists(filePath)) {
+        const descriptionConfig: IDescriptionConfiguration = settingUtils.getDescriptionConfiguration();
+        await fse.outputFile(filePath, await getProblemProvider().getCodeTemplate(node, language, descriptionConfig.showInComment));
+    }
+    const descriptionFileConfig: IDescriptionFileConfiguration = settingUtils.getDescriptionFileConfiguration();
+    if (descriptionFileConfig.enabled) {
+        await exportDescriptionInternal(node, filePath, language, false /* overwrite */);
+    }
+}
+
+// Write the description file next to the solution file, the path of the description file is returned.
+// The existing file which is not generated by the extension is only overwritten with the user's confirmation
+async function exportDescriptionInternal(node: IProblem, solutionPath: string, language: string, overwrite: boolean): Promise<string | undefined> {
+    const config: IDescriptionFileConfiguration = settingUtils.getDescriptionFileConfiguration();
+    const descriptionPath: string = await resolveRelativePath(path.join(path.dirname(solutionPath), config.filename), node, language);
+    if (!descriptionPath) {
+        return undefined;
+    }
+    if (await fse.pathExists(descriptionPath)) {
+        if (!overwrite) {
+            return await isGeneratedDescriptionFile(descriptionPath) ? descriptionPath : undefined;
+        }
+        if (!await isGeneratedDescriptionFile(descriptionPath)) {
+            const choice: vscode.MessageItem | undefined = await vscode.window.showWarningMessage(
+                `${path.basename(descriptionPath)} already exists and is not generated by the extension, do you want to overwrite it?`,
+                { modal: true },
+                { title: "Overwrite" },
+            );
+            if (!choice) {
+                return undefined;
+            }
+        }
+    }
+    await writeDescriptionFile(descriptionPath, await getProblemProvider().getDescription(node.id), node, config.assetsFolder);
+    return descriptionPath;
+}
+
 async function showDescriptionView(node: IProblem): Promise<void> {
     return previewProblem(node, vscode.workspace.getConfiguration("leetcode").get<boolean>("enableSideMode", true));
 }
@@ -212,74 +395,3 @@ function parseProblemDecorator(state: ProblemState, locked: boolean): string {
             return locked ? "$(lock) " : "";
     }
 }
-
-async function resolveRelativePath(relativePath: string, node: IProblem, selectedLanguage: string): Promise<string> {
-    let tag: string = "";
-    if (/\$\{tag\}/i.test(relativePath)) {
-        tag = (await resolveTagForProblem(node)) || "";
-    }
-
-    let company: string = "";
-    if (/\$\{company\}/i.test(relativePath)) {
-        company = (await resolveCompanyForProblem(node)) || "";
-    }
-
-    return relativePath.replace(/\$\{(.*?)\}/g, (_substring: string, ...args: string[]) => {
-        const placeholder: string = args[0].toLowerCase().trim();
-        switch (placeholder) {
-            case "id":
-                return node.id;
-            case "name":
-                return node.name;
-            case "camelcasename":
-                return _.camelCase(node.name);
-            case "pascalcasename":
-                return _.upperFirst(_.camelCase(node.name));
-            case "kebabcasename":
-            case "kebab-case-name":
-                return _.kebabCase(node.name);
-            case "snakecasename":
-            case "snake_case_name":
-                return _.snakeCase(node.name);
-            case "ext":
-                return genFileExt(selectedLanguage);
-            case "language":
-                return selectedLanguage;
-            case "difficulty":
-                return node.difficulty.toLocaleLowerCase();
-            case "tag":
-                return tag;
-            case "company":
-                return company;
-            default:
-                const errorMsg: string = `The config '${placeholder}' is not supported.`;
-                leetCodeChannel.appendLine(errorMsg);
-                throw new Error(errorMsg);
-        }
-    });
-}
-
-async function resolveTagForProblem(problem: IProblem): Promise<string | undefined> {
-    if (problem.tags.length === 1) {
-        return problem.tags[0];
-    }
-    return await vscode.window.showQuickPick(
-        problem.tags,
-        {
-            matchOnDetail: true,
-            placeHolder: "Multiple tags available, please select one",
-            ignoreFocusOut: true,
-        },
-    );
-}
-
-async function resolveCompanyForProblem(problem: IProblem): Promise<string | undefined> {
-    if (problem.companies.length === 1) {
-        return problem.companies[0];
-    }
-    return await vscode.window.showQuickPick(problem.companies, {
-        matchOnDetail: true,
-        placeHolder: "Multiple tags available, please select one",
-        ignoreFocusOut: true,
-    });
-}
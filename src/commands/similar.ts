@@ -0,0 +1,45 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as _ from "lodash";
+import * as vscode from "vscode";
+import { contestManager } from "../contest/contestManager";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { IProblem, ProblemState } from "../shared";
+import { shouldSuggestNextSimilarProblem } from "../utils/settingUtils";
+
+const difficulties: string[] = ["Easy", "Medium", "Hard"];
+
+// The next problem in the family of the similar problems, the unsolved ones not easier than the current one come first
+export async function getNextInChain(problem: IProblem): Promise<LeetCodeNode | undefined> {
+    const rank: (difficulty: string) => number = (difficulty: string): number => difficulties.indexOf(difficulty);
+    const candidates: LeetCodeNode[] = (await explorerNodeManager.getSimilarNodes(problem.id))
+        .filter((node: LeetCodeNode) => node.state !== ProblemState.AC && !node.locked);
+    return _.sortBy(candidates, [
+        (node: LeetCodeNode): number => rank(node.difficulty) < rank(problem.difficulty) ? 1 : 0,
+        (node: LeetCodeNode): number => rank(node.difficulty),
+    ])[0];
+}
+
+// fire-and-forget after the problem is accepted
+export async function suggestNextInChain(problemId: string): Promise<void> {
+    const problem: LeetCodeNode | undefined = explorerNodeManager.getNodeById(problemId);
+    if (!problem || contestManager.isRunning() || !shouldSuggestNextSimilarProblem()) {
+        return;
+    }
+    const next: LeetCodeNode | undefined = await getNextInChain(problem);
+    if (!next) {
+        return;
+    }
+    const choice: string | undefined = await vscode.window.showInformationMessage(
+        `Next in chain: [${next.id}] ${next.name} (${next.difficulty})`,
+        "Preview",
+        "Code Now",
+    );
+    if (choice === "Preview") {
+        await vscode.commands.executeCommand("leetcode.previewProblem", next);
+    } else if (choice === "Code Now") {
+        await vscode.commands.executeCommand("leetcode.showProblem", next);
+    }
+}
@@ -5,13 +5,13 @@
 import { customCodeLensProvider } from "../codelens/CustomCodeLensProvider";
 import { LeetCodeNode } from "../explorer/LeetCodeNode";
 import { leetCodeTreeDataProvider } from "../explorer/LeetCodeTreeDataProvider";
-import { leetCodeExecutor } from "../leetCodeExecutor";
+import { getProblemProvider } from "../providers/problemProvider";
 import { hasStarShortcut } from "../utils/settingUtils";
 import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
 
 export async function addFavorite(node: LeetCodeNode): Promise<void> {
     try {
-        await leetCodeExecutor.toggleFavorite(node, true);
+        await getProblemProvider().toggleFavorite(node, true);
         await leetCodeTreeDataProvider.refresh();
         if (hasStarShortcut()) {
             customCodeLensProvider.refresh();
@@ -23,7 +23,7 @@ export async function addFavorite(node: LeetCodeNode): Promise<void> {
 
 export async function removeFavorite(node: LeetCodeNode): Promise<void> {
     try {
-        await leetCodeExecutor.toggleFavorite(node, false);
+        await getProblemProvider().toggleFavorite(node, false);
         await leetCodeTreeDataProvider.refresh();
         if (hasStarShortcut()) {
             customCodeLensProvider.refresh();
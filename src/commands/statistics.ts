@@ -0,0 +1,13 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
+import { leetCodeStatisticsProvider } from "../webview/leetCodeStatisticsProvider";
+
+export async function showStatistics(): Promise<void> {
+    try {
+        await leetCodeStatisticsProvider.show();
+    } catch (error) {
+        await promptForOpenOutputChannel("Failed to show the statistics. Please open the output channel for details.", DialogType.error);
+    }
+}
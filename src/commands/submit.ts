@@ -2,12 +2,24 @@
 // Licensed under the MIT license.
 
 import * as vscode from "vscode";
+import { contestManager } from "../contest/contestManager";
+import { dailyChallengeManager } from "../daily/dailyChallengeManager";
+import { submissionDiagnostics } from "../diagnostics/submissionDiagnostics";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
 import { leetCodeTreeDataProvider } from "../explorer/LeetCodeTreeDataProvider";
-import { leetCodeExecutor } from "../leetCodeExecutor";
+import { historyManager } from "../history/historyManager";
+import { leetCodeChannel } from "../leetCodeChannel";
 import { leetCodeManager } from "../leetCodeManager";
+import { getProblemProvider } from "../providers/problemProvider";
+import { ISubmissionRecord, ISubmissionResult, SubmissionType } from "../shared";
+import { commitAcceptedSolution } from "../utils/gitUtils";
 import { DialogType, promptForOpenOutputChannel, promptForSignIn } from "../utils/uiUtils";
 import { getActiveFilePath } from "../utils/workspaceUtils";
+import * as wsl from "../utils/wslUtils";
 import { leetCodeSubmissionProvider } from "../webview/leetCodeSubmissionProvider";
+import { rateRecall } from "./review";
+import { suggestNextInChain } from "./similar";
 
 export async function submitSolution(uri?: vscode.Uri): Promise<void> {
     if (!leetCodeManager.getUser()) {
@@ -19,10 +31,24 @@ export async function submitSolution(uri?: vscode.Uri): Promise<void> {
     if (!filePath) {
         return;
     }
+    const fsPath: string = wsl.useWsl() ? await wsl.toWinPath(filePath) : filePath;
 
     try {
-        const result: string = await leetCodeExecutor.submitSolution(filePath);
+        const result: ISubmissionResult = await getProblemProvider().submitSolution(filePath);
         leetCodeSubmissionProvider.show(result);
+        await submissionDiagnostics.update(fsPath, result);
+        const record: ISubmissionRecord | undefined = await historyManager.addRecord(filePath, SubmissionType.Submit, result);
+        if (record && contestManager.isRunning()) {
+            await contestManager.recordSubmission(record.problemId, result.accepted);
+        } else if (result.accepted && record) {
+            // fire-and-forget, the explorer should be refreshed without waiting for the rating
+            rateRecall(record.problemId).catch((error: Error) => leetCodeChannel.appendLine(`Failed to rate the recall of ${record.problemId}: ${error}`));
+        }
+        if (result.accepted && record) {
+            await dailyChallengeManager.recordAccepted(record.problemId);
+            autoCommit(fsPath, record.problemId, result);
+            suggestNextInChain(record.problemId).catch((error: Error) => leetCodeChannel.appendLine(`Failed to suggest the next problem: ${error}`));
+        }
     } catch (error) {
         await promptForOpenOutputChannel("Failed to submit the solution. Please open the output channel for details.", DialogType.error);
         return;
@@ -30,3 +56,17 @@ export async function submitSolution(uri?: vscode.Uri): Promise<void> {
 
     leetCodeTreeDataProvider.refresh();
 }
+
+// fire-and-forget, a failed commit should not fail the submission
+async function autoCommit(fsPath: string, problemId: string, result: ISubmissionResult): Promise<void> {
+    const node: LeetCodeNode | undefined = explorerNodeManager.getNodeById(problemId);
+    if (!node) {
+        return;
+    }
+    try {
+        await commitAcceptedSolution(fsPath, node, result);
+    } catch (error) {
+        leetCodeChannel.appendLine(`[Git] Failed to commit the accepted solution: ${error}`);
+        await promptForOpenOutputChannel("Failed to commit the accepted solution. Please open the output channel for details.", DialogType.warning);
+    }
+}
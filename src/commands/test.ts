@@ -2,56 +2,90 @@
 // Licensed under the MIT license.
 
 import * as fse from "fs-extra";
+import * as path from "path";
 import * as vscode from "vscode";
-import { leetCodeExecutor } from "../leetCodeExecutor";
+import { submissionDiagnostics } from "../diagnostics/submissionDiagnostics";
+import { historyManager } from "../history/historyManager";
 import { leetCodeManager } from "../leetCodeManager";
-import { IQuickItemEx, UserStatus } from "../shared";
-import { isWindows, usingCmd } from "../utils/osUtils";
-import { DialogType, promptForOpenOutputChannel, showFileSelectDialog } from "../utils/uiUtils";
+import { getCodeRegion, IFunctionSignature, localTestLanguages, parseFunctionSignature, runLocalTest } from "../localtest/localTestRunner";
+import { getProblemProvider } from "../providers/problemProvider";
+import { IProblem, IQuickItemEx, ISubmissionResult, SubmissionType, UserStatus } from "../shared";
+import { solutionIndex } from "../solutions/solutionIndex";
+import { getLanguageFromFile, getNodeIdFromFile } from "../utils/problemUtils";
+import { appendTestCase, createTestCaseFile, getTestCaseFilePath, getTestInput, parseExampleTestcase } from "../utils/testCaseUtils";
+import { DialogType, promptForOpenOutputChannel, promptForSignIn, showFileSelectDialog } from "../utils/uiUtils";
 import { getActiveFilePath } from "../utils/workspaceUtils";
 import * as wsl from "../utils/wslUtils";
 import { leetCodeSubmissionProvider } from "../webview/leetCodeSubmissionProvider";
 
 export async function testSolution(uri?: vscode.Uri): Promise<void> {
     try {
-        if (leetCodeManager.getStatus() === UserStatus.SignedOut) {
-            return;
-        }
-
         const filePath: string | undefined = await getActiveFilePath(uri);
         if (!filePath) {
             return;
         }
+        const fsPath: string = wsl.useWsl() ? await wsl.toWinPath(filePath) : filePath;
+        const testCaseFileName: string = path.basename(getTestCaseFilePath(fsPath));
         const picks: Array<IQuickItemEx<string>> = [];
-        picks.push(
-            {
-                label: "$(three-bars) Default test cases",
-                description: "",
-                detail: "Test with the default cases",
-                value: ":default",
-            },
-            {
-                label: "$(pencil) Write directly...",
-                description: "",
-                detail: "Write test cases in input box",
-                value: ":direct",
-            },
-            {
-                label: "$(file-text) Browse...",
+        // Running locally doesn't require signing in
+        if (leetCodeManager.getStatus() !== UserStatus.SignedOut) {
+            picks.push(
+                {
+                    label: "$(three-bars) Default test cases",
+                    description: "",
+                    detail: "Test with the default cases",
+                    value: ":default",
+                },
+                {
+                    label: "$(checklist) Test with saved cases",
+                    description: "",
+                    detail: `Test with the cases saved in ${testCaseFileName}`,
+                    value: ":saved",
+                },
+                {
+                    label: "$(pencil) Write directly...",
+                    description: "",
+                    detail: "Write test cases in input box",
+                    value: ":direct",
+                },
+                {
+                    label: "$(file-text) Browse...",
+                    description: "",
+                    detail: "Test with the written cases in file",
+                    value: ":file",
+                },
+            );
+        }
+        const language: string | undefined = await getLanguageFromFile(fsPath);
+        if (language && localTestLanguages.indexOf(language) >= 0) {
+            picks.push({
+                label: "$(beaker) Run locally",
                 description: "",
-                detail: "Test with the written cases in file",
-                value: ":file",
-            },
-        );
+                detail: `Run the cases in ${testCaseFileName} on this machine`,
+                value: ":local",
+            });
+        }
+        if (picks.length === 0) {
+            return;
+        }
         const choice: IQuickItemEx<string> | undefined = await vscode.window.showQuickPick(picks);
         if (!choice) {
             return;
         }
 
-        let result: string | undefined;
+        let result: ISubmissionResult | undefined;
         switch (choice.value) {
             case ":default":
-                result = await leetCodeExecutor.testSolution(filePath);
+                result = await getProblemProvider().testSolution(filePath);
+                break;
+            case ":saved":
+                await ensureTestCaseFile(fsPath);
+                const savedInput: string = getTestInput(await fse.readFile(getTestCaseFilePath(fsPath), "utf8"));
+                if (savedInput) {
+                    result = await getProblemProvider().testSolution(filePath, savedInput);
+                } else {
+                    vscode.window.showErrorMessage(`No test case is saved in ${testCaseFileName}.`);
+                }
                 break;
             case ":direct":
                 const testString: string | undefined = await vscode.window.showInputBox({
@@ -61,7 +95,9 @@ export async function testSolution(uri?: vscode.Uri): Promise<void> {
                     ignoreFocusOut: true,
                 });
                 if (testString) {
-                    result = await leetCodeExecutor.testSolution(filePath, parseTestString(testString));
+                    result = await getProblemProvider().testSolution(filePath, testString.replace(/\\n/g, "\n"));
+                    await ensureTestCaseFile(fsPath);
+                    await appendTestCase(fsPath, testString.replace(/\\n/g, "\n"), await getParamCount(fsPath, language));
                 }
                 break;
             case ":file":
@@ -69,34 +105,136 @@ export async function testSolution(uri?: vscode.Uri): Promise<void> {
                 if (testFile && testFile.length) {
                     const input: string = (await fse.readFile(testFile[0].fsPath, "utf-8")).trim();
                     if (input) {
-                        result = await leetCodeExecutor.testSolution(filePath, parseTestString(input.replace(/\r?\n/g, "\\n")));
+                        result = await getProblemProvider().testSolution(filePath, input.replace(/\r\n/g, "\n"));
                     } else {
                         vscode.window.showErrorMessage("The selected test file must not be empty.");
                     }
                 }
                 break;
+            case ":local":
+                try {
+                    await ensureTestCaseFile(fsPath);
+                    result = await runLocalTest(fsPath, language!);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to run the solution locally: ${error.message}`);
+                    return;
+                }
+                break;
             default:
                 break;
         }
         if (!result) {
             return;
         }
-        leetCodeSubmissionProvider.show(result);
+        await showTestResult(filePath, fsPath, result);
     } catch (error) {
         await promptForOpenOutputChannel("Failed to test the solution. Please open the output channel for details.", DialogType.error);
     }
 }
 
-function parseTestString(test: string): string {
-    if (wsl.useWsl() || !isWindows()) {
-        return `'${test}'`;
+// Append the test case, e.g. an example in the problem preview, to the test case file of the problem's solution
+export async function addTestCaseOfProblem(node: IProblem, testcase: string): Promise<void> {
+    const fsPath: string | undefined = await pickSolutionFile(node);
+    if (!fsPath) {
+        return;
+    }
+    try {
+        await ensureTestCaseFile(fsPath);
+        await appendTestCase(fsPath, testcase);
+        vscode.window.showInformationMessage(`The test case is added to ${path.basename(getTestCaseFilePath(fsPath))}.`);
+    } catch (error) {
+        await promptForOpenOutputChannel("Failed to add the test case. Please open the output channel for details.", DialogType.error);
     }
+}
 
-    // In windows and not using WSL
-    if (usingCmd()) {
-        return `"${test.replace(/"/g, '\\"')}"`;
-    } else {
-        // Assume using PowerShell
-        return `'${test.replace(/"/g, '\\"')}'`;
+// Test the problem's solution with the test case, e.g. an example in the problem preview
+export async function testProblemWithTestCase(node: IProblem, testcase: string): Promise<void> {
+    if (leetCodeManager.getStatus() === UserStatus.SignedOut) {
+        promptForSignIn();
+        return;
+    }
+    const fsPath: string | undefined = await pickSolutionFile(node);
+    if (!fsPath) {
+        return;
+    }
+    try {
+        const filePath: string = wsl.useWsl() ? await wsl.toWslPath(fsPath) : fsPath;
+        const result: ISubmissionResult = await getProblemProvider().testSolution(filePath, testcase.replace(/\r\n/g, "\n"));
+        await showTestResult(filePath, fsPath, result);
+    } catch (error) {
+        await promptForOpenOutputChannel("Failed to test the solution. Please open the output channel for details.", DialogType.error);
+    }
+}
+
+export async function editTestCases(uri?: vscode.Uri): Promise<void> {
+    const filePath: string | undefined = await getActiveFilePath(uri);
+    if (!filePath) {
+        return;
+    }
+    try {
+        const fsPath: string = wsl.useWsl() ? await wsl.toWinPath(filePath) : filePath;
+        await ensureTestCaseFile(fsPath);
+        await vscode.window.showTextDocument(vscode.Uri.file(getTestCaseFilePath(fsPath)), { preview: false });
+    } catch (error) {
+        await promptForOpenOutputChannel("Failed to open the test case file. Please open the output channel for details.", DialogType.error);
+    }
+}
+
+async function showTestResult(filePath: string, fsPath: string, result: ISubmissionResult): Promise<void> {
+    leetCodeSubmissionProvider.show(result);
+    await submissionDiagnostics.update(fsPath, result);
+    await historyManager.addRecord(filePath, SubmissionType.Test, result);
+}
+
+// The solution in the visible editors is preferred, otherwise the user picks one of the indexed solutions
+async function pickSolutionFile(node: IProblem): Promise<string | undefined> {
+    const files: string[] = solutionIndex.getSolutionFiles(node.id);
+    if (files.length === 0) {
+        const action: vscode.MessageItem | undefined = await vscode.window.showWarningMessage(
+            `No solution of [${node.id}] ${node.name} is found in the workspace.`,
+            { title: "Code Now" },
+        );
+        if (action) {
+            await vscode.commands.executeCommand("leetcode.showProblem", node);
+        }
+        return undefined;
+    }
+    const visible: vscode.TextEditor | undefined = vscode.window.visibleTextEditors.find(
+        (editor: vscode.TextEditor) => files.indexOf(editor.document.uri.fsPath) >= 0,
+    );
+    if (visible) {
+        return visible.document.uri.fsPath;
+    }
+    if (files.length === 1) {
+        return files[0];
+    }
+    const choice: IQuickItemEx<string> | undefined = await vscode.window.showQuickPick(
+        files.map((file: string) => ({ label: path.basename(file), description: file, value: file })),
+        { placeHolder: "Select the solution" },
+    );
+    return choice && choice.value;
+}
+
+// The parameter count is known only if the signature of the solution can be parsed, i.e. in the languages which run locally
+async function getParamCount(fsPath: string, language: string | undefined): Promise<number | undefined> {
+    if (!language) {
+        return undefined;
+    }
+    const signature: IFunctionSignature | undefined = parseFunctionSignature(getCodeRegion(await fse.readFile(fsPath, "utf8")), language);
+    return signature && signature.params.length;
+}
+
+// Create the test case file from the example testcase of the problem if it does not exist
+async function ensureTestCaseFile(fsPath: string): Promise<void> {
+    if (await fse.pathExists(getTestCaseFilePath(fsPath))) {
+        return;
+    }
+    const problemId: string = await getNodeIdFromFile(fsPath);
+    let exampleTestcase: string = "";
+    try {
+        exampleTestcase = parseExampleTestcase(await getProblemProvider().getDescription(problemId));
+    } catch (error) {
+        // The file can still be created without the example testcase, e.g. when offline
     }
+    await createTestCaseFile(fsPath, problemId, exampleTestcase);
 }
@@ -0,0 +1,134 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as _ from "lodash";
+import * as vscode from "vscode";
+import { IContest, IContestProblem, IProblem } from "../shared";
+
+const contestStateKey: string = "leetcode.contest";
+const inContestContextKey: string = "leetcode.inContest";
+// Same as the LeetCode contests, every wrong submission before the problem is accepted costs 5 minutes
+export const penaltyPerWrongSubmission: number = 5 * 60 * 1000;
+
+class ContestManager implements vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private timer: NodeJS.Timer | undefined;
+    private onDidChangeContestEmitter: vscode.EventEmitter<IContest> = new vscode.EventEmitter<IContest>();
+    private onDidFinishContestEmitter: vscode.EventEmitter<IContest> = new vscode.EventEmitter<IContest>();
+
+    public get onDidChangeContest(): vscode.Event<IContest> {
+        return this.onDidChangeContestEmitter.event;
+    }
+
+    public get onDidFinishContest(): vscode.Event<IContest> {
+        return this.onDidFinishContestEmitter.event;
+    }
+
+    // The contest is kept in the global state, so that it survives the reload of the window
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+        this.scheduleFinish();
+    }
+
+    // The running contest, or the latest finished one
+    public getContest(): IContest | undefined {
+        return this.context ? this.context.globalState.get<IContest>(contestStateKey) : undefined;
+    }
+
+    public isRunning(): boolean {
+        const contest: IContest | undefined = this.getContest();
+        return !!contest && !contest.endTime;
+    }
+
+    public async start(problems: IProblem[], duration: number): Promise<IContest> {
+        const contest: IContest = {
+            startTime: Date.now(),
+            duration,
+            problems: problems.map((problem: IProblem): IContestProblem => ({
+                id: problem.id,
+                name: problem.name,
+                difficulty: problem.difficulty,
+                wrongSubmissions: 0,
+            })),
+        };
+        await this.update(contest);
+        this.scheduleFinish();
+        return contest;
+    }
+
+    public async recordSubmission(problemId: string, accepted: boolean): Promise<void> {
+        const contest: IContest | undefined = this.getContest();
+        if (!contest || contest.endTime || Date.now() > contest.startTime + contest.duration) {
+            return;
+        }
+        const problem: IContestProblem | undefined = contest.problems.find((p: IContestProblem) => p.id === problemId);
+        if (!problem || problem.acceptedTime) {
+            return;
+        }
+        if (accepted) {
+            problem.acceptedTime = Date.now();
+        } else {
+            problem.wrongSubmissions++;
+        }
+        await this.update(contest);
+        if (contest.problems.every((p: IContestProblem) => !!p.acceptedTime)) {
+            await this.finish();
+        }
+    }
+
+    public async finish(): Promise<IContest | undefined> {
+        this.clearTimer();
+        const contest: IContest | undefined = this.getContest();
+        if (!contest || contest.endTime) {
+            return contest;
+        }
+        contest.endTime = Math.min(Date.now(), contest.startTime + contest.duration);
+        await this.update(contest);
+        this.onDidFinishContestEmitter.fire(contest);
+        return contest;
+    }
+
+    public dispose(): void {
+        this.clearTimer();
+        this.onDidChangeContestEmitter.dispose();
+        this.onDidFinishContestEmitter.dispose();
+    }
+
+    private async update(contest: IContest): Promise<void> {
+        await this.context.globalState.update(contestStateKey, contest);
+        await vscode.commands.executeCommand("setContext", inContestContextKey, !contest.endTime);
+        this.onDidChangeContestEmitter.fire(contest);
+    }
+
+    private scheduleFinish(): void {
+        this.clearTimer();
+        const contest: IContest | undefined = this.getContest();
+        vscode.commands.executeCommand("setContext", inContestContextKey, !!contest && !contest.endTime);
+        if (contest && !contest.endTime) {
+            this.timer = setTimeout(() => this.finish(), Math.max(0, contest.startTime + contest.duration - Date.now()));
+        }
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
+
+// The time used to solve the problem, plus the penalty of the wrong submissions
+export function getPenaltyTime(contest: IContest, problem: IContestProblem): number {
+    if (!problem.acceptedTime) {
+        return 0;
+    }
+    return problem.acceptedTime - contest.startTime + problem.wrongSubmissions * penaltyPerWrongSubmission;
+}
+
+export function formatDuration(ms: number): string {
+    const seconds: number = Math.max(0, Math.floor(ms / 1000));
+    const pad: (n: number) => string = (n: number): string => _.padStart(`${n}`, 2, "0");
+    return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+export const contestManager: ContestManager = new ContestManager();
@@ -0,0 +1,67 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { ILeetCodeCredentials, leetCodeClient } from "../client/leetCodeClient";
+import { getLeetCodeEndpoint } from "../commands/plugin";
+import { clientProblemProvider } from "../providers/clientProblemProvider";
+import { cliProblemProvider } from "../providers/cliProblemProvider";
+import { setProblemProvider } from "../providers/problemProvider";
+import { ICredential } from "../shared";
+import { useWsl } from "../utils/wslUtils";
+
+class CredentialStore {
+    private secrets: vscode.SecretStorage;
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.secrets = context.secrets;
+    }
+
+    // The credential is kept for each endpoint
+    public async get(): Promise<ICredential | undefined> {
+        const value: string | undefined = await this.secrets.get(getCredentialKey());
+        if (!value) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    public async store(credential: ICredential): Promise<void> {
+        setClientCredentials(credential);
+        await this.secrets.store(getCredentialKey(), JSON.stringify(credential));
+    }
+
+    public async delete(): Promise<void> {
+        setClientCredentials(undefined);
+        await this.secrets.delete(getCredentialKey());
+    }
+
+    // Authenticate the requests of the client with the stored cookie
+    public async restore(): Promise<void> {
+        setClientCredentials(await this.get());
+    }
+}
+
+function getCredentialKey(): string {
+    return `leetcode.credential.${getLeetCodeEndpoint()}`;
+}
+
+// The solutions are judged by the client once it's authenticated, except in WSL where the solution files are not accessible
+function setClientCredentials(credential: ICredential | undefined): void {
+    const credentials: ILeetCodeCredentials | undefined = credential ? parseCookie(credential.secret) : undefined;
+    leetCodeClient.setCredentials(credentials);
+    setProblemProvider(credentials && !useWsl() ? clientProblemProvider : cliProblemProvider);
+}
+
+// The session and the CSRF token in the cookie copied from the browser
+function parseCookie(cookie: string): ILeetCodeCredentials | undefined {
+    const session: RegExpMatchArray | null = cookie.match(/LEETCODE_SESSION=([^;\s]+)/);
+    const csrfToken: RegExpMatchArray | null = cookie.match(/csrftoken=([^;\s]+)/);
+    return session && csrfToken ? { session: session[1], csrfToken: csrfToken[1] } : undefined;
+}
+
+export const credentialStore: CredentialStore = new CredentialStore();
@@ -0,0 +1,109 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { leetCodeClient } from "../client/leetCodeClient";
+import { getLeetCodeEndpoint } from "../commands/plugin";
+import { Endpoint, IDailyChallenge } from "../shared";
+
+const dailyStateKey: string = "leetcode.dailyChallenge";
+const dayInMs: number = 24 * 60 * 60 * 1000;
+
+// The state is kept for each endpoint, since they have different daily questions
+interface IDailyState {
+    challenge?: IDailyChallenge;
+    // The date when the challenge was fetched, which is compared instead of the date returned by LeetCode to avoid refetching
+    fetchedDate?: string;
+    // The dates of the daily challenges which have been accepted
+    solvedDates: string[];
+    // The date when the daily challenge was opened on startup
+    lastOpenedDate?: string;
+}
+
+class DailyChallengeManager implements vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private onDidChangeDailyEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+
+    public get onDidChangeDaily(): vscode.Event<void> {
+        return this.onDidChangeDailyEmitter.event;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+    }
+
+    // Today's challenge in the cache, which is undefined before it's fetched from LeetCode
+    public getCachedChallenge(): IDailyChallenge | undefined {
+        const state: IDailyState = this.getState();
+        return state.fetchedDate === getChallengeDate() ? state.challenge : undefined;
+    }
+
+    // The challenge is fetched at most once a day
+    public async getChallenge(): Promise<IDailyChallenge> {
+        const cached: IDailyChallenge | undefined = this.getCachedChallenge();
+        if (cached) {
+            return cached;
+        }
+        const challenge: IDailyChallenge = await leetCodeClient.getDailyChallenge();
+        await this.updateState({ challenge, fetchedDate: getChallengeDate() });
+        return challenge;
+    }
+
+    public isSolved(): boolean {
+        return this.getState().solvedDates.indexOf(getChallengeDate()) >= 0;
+    }
+
+    // The number of the consecutive days with the daily challenge accepted, till today or yesterday
+    public getStreak(): number {
+        const solvedDates: string[] = this.getState().solvedDates;
+        let time: number = this.isSolved() ? Date.now() : Date.now() - dayInMs;
+        let streak: number = 0;
+        while (solvedDates.indexOf(getChallengeDate(time)) >= 0) {
+            streak++;
+            time -= dayInMs;
+        }
+        return streak;
+    }
+
+    public async recordAccepted(problemId: string): Promise<void> {
+        const challenge: IDailyChallenge | undefined = this.getCachedChallenge();
+        if (!challenge || challenge.problemId !== problemId || this.isSolved()) {
+            return;
+        }
+        await this.updateState({ solvedDates: [...this.getState().solvedDates, getChallengeDate()] });
+    }
+
+    // Returns true for the first call of the day, so that the challenge is opened on startup only once a day
+    public async shouldOpenOnStartup(): Promise<boolean> {
+        const today: string = getChallengeDate();
+        if (this.getState().lastOpenedDate === today || this.isSolved()) {
+            return false;
+        }
+        await this.updateState({ lastOpenedDate: today });
+        return true;
+    }
+
+    public dispose(): void {
+        this.onDidChangeDailyEmitter.dispose();
+    }
+
+    private getState(): IDailyState {
+        const states: { [endpoint: string]: IDailyState } = this.context ? this.context.globalState.get(dailyStateKey, {}) : {};
+        return states[getLeetCodeEndpoint()] || { solvedDates: [] };
+    }
+
+    private async updateState(update: Partial<IDailyState>): Promise<void> {
+        const states: { [endpoint: string]: IDailyState } = this.context.globalState.get(dailyStateKey, {});
+        states[getLeetCodeEndpoint()] = Object.assign({}, this.getState(), update);
+        await this.context.globalState.update(dailyStateKey, states);
+        this.onDidChangeDailyEmitter.fire();
+    }
+}
+
+// The daily question changes at midnight in UTC on leetcode.com, and in Beijing Time (UTC+8) on leetcode-cn.com
+function getChallengeDate(time: number = Date.now()): string {
+    const offset: number = getLeetCodeEndpoint() === Endpoint.LeetCodeCN ? 8 * 60 * 60 * 1000 : 0;
+    return new Date(time + offset).toISOString().slice(0, 10);
+}
+
+export const dailyChallengeManager: DailyChallengeManager = new DailyChallengeManager();
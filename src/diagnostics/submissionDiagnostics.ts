@@ -0,0 +1,43 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as vscode from "vscode";
+import { IErrorLocation, ISubmissionResult } from "../shared";
+
+class SubmissionDiagnostics implements vscode.Disposable {
+    private collection: vscode.DiagnosticCollection = vscode.languages.createDiagnosticCollection("leetcode");
+
+    // Publish the errors of the latest test or submission on the solution file, the previous ones are replaced
+    public async update(fsPath: string, result: ISubmissionResult): Promise<void> {
+        const uri: vscode.Uri = vscode.Uri.file(fsPath);
+        const locations: IErrorLocation[] = result.errorLocations || [];
+        if (locations.length === 0) {
+            this.collection.delete(uri);
+            return;
+        }
+        const lines: string[] = (await fse.readFile(fsPath, "utf8")).split(/\r?\n/);
+        // The line numbers are relative to the code after "@lc code=start", which is the submitted part of the file
+        const startLine: number = lines.findIndex((line: string) => line.indexOf("@lc code=start") >= 0) + 1;
+        const source: string = result.compileError ? "LeetCode Compile Error" : "LeetCode Runtime Error";
+        const diagnostics: vscode.Diagnostic[] = locations.map((location: IErrorLocation) => {
+            const line: number = Math.min(startLine + location.line - 1, lines.length - 1);
+            const text: string = lines[line] || "";
+            const start: number = location.column ? location.column - 1 : text.search(/\S|$/);
+            const diagnostic: vscode.Diagnostic = new vscode.Diagnostic(
+                new vscode.Range(line, start, line, Math.max(text.length, start)),
+                location.message,
+                location.isWarning ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error,
+            );
+            diagnostic.source = source;
+            return diagnostic;
+        });
+        this.collection.set(uri, diagnostics);
+    }
+
+    public dispose(): void {
+        this.collection.dispose();
+    }
+}
+
+export const submissionDiagnostics: SubmissionDiagnostics = new SubmissionDiagnostics();
@@ -6,7 +6,8 @@ import { IProblem, ProblemState } from "../shared";
 
 export class LeetCodeNode {
 
-    constructor(private data: IProblem, private isProblemNode: boolean = true) { }
+    // The endpoint is only set for the problems of the inactive endpoint, when both endpoints are shown in the explorer
+    constructor(private data: IProblem, private isProblemNode: boolean = true, private endpointName?: string) { }
 
     public get locked(): boolean {
         return this.data.locked;
@@ -47,7 +48,22 @@ export class LeetCodeNode {
         return this.isProblemNode;
     }
 
+    public get endpoint(): string | undefined {
+        return this.endpointName;
+    }
+
+    public update(data: IProblem): void {
+        this.data = data;
+    }
+
     public get previewCommand(): Command {
+        if (this.endpointName) {
+            return {
+                title: "Switch Endpoint and Preview Problem",
+                command: "leetcode.toggleLeetCodeCn",
+                arguments: [this.endpointName, this],
+            };
+        }
         return {
             title: "Preview Problem",
             command: "leetcode.previewProblem",
@@ -4,14 +4,23 @@
 import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
+import { getLeetCodeEndpoint } from "../commands/plugin";
+import { leetCodeChannel } from "../leetCodeChannel";
 import { leetCodeManager } from "../leetCodeManager";
-import { Category, defaultProblem, ProblemState } from "../shared";
+import { Category, defaultProblem, ISimilarProblem, ProblemState } from "../shared";
+import { similarProblemManager } from "../similar/similarProblemManager";
+import { solutionIndex } from "../solutions/solutionIndex";
+import { shouldShowBothEndpoints } from "../utils/settingUtils";
+import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
+import { explorerFilter } from "./explorerFilter";
 import { explorerNodeManager } from "./explorerNodeManager";
 import { LeetCodeNode } from "./LeetCodeNode";
 
 export class LeetCodeTreeDataProvider implements vscode.TreeDataProvider<LeetCodeNode> {
 
     private context: vscode.ExtensionContext;
+    private treeView: vscode.TreeView<LeetCodeNode> | undefined;
+    private syncMessage: string | undefined;
 
     private onDidChangeTreeDataEvent: vscode.EventEmitter<LeetCodeNode | undefined | null> = new vscode.EventEmitter<LeetCodeNode | undefined | null>();
     // tslint:disable-next-line:member-ordering
@@ -21,9 +30,39 @@ export class LeetCodeTreeDataProvider implements vscode.TreeDataProvider<LeetCod
         this.context = context;
     }
 
+    public setTreeView(treeView: vscode.TreeView<LeetCodeNode>): void {
+        this.treeView = treeView;
+    }
+
+    // Re-render the explorer with the data in memory, without syncing with LeetCode
+    public rerender(): void {
+        this.updateMessage();
+        this.onDidChangeTreeDataEvent.fire(undefined);
+    }
+
     public async refresh(): Promise<void> {
-        await explorerNodeManager.refreshCache();
-        this.onDidChangeTreeDataEvent.fire();
+        // Render the cached problems first, then sync with LeetCode in the background
+        if (explorerNodeManager.getAllNodes().length === 0 && await explorerNodeManager.loadCache()) {
+            this.onDidChangeTreeDataEvent.fire(undefined);
+        }
+        this.setMessage("Syncing the problem list...");
+        try {
+            const changedNodes: LeetCodeNode[] | undefined = await explorerNodeManager.refreshCache();
+            if (changedNodes) {
+                for (const node of changedNodes) {
+                    this.onDidChangeTreeDataEvent.fire(node);
+                }
+            } else {
+                this.onDidChangeTreeDataEvent.fire(undefined);
+            }
+            this.updateSyncMessage(false /* offline */);
+        } catch (error) {
+            leetCodeChannel.appendLine(error.toString());
+            this.updateSyncMessage(true /* offline */);
+            if (explorerNodeManager.getAllNodes().length === 0) {
+                await promptForOpenOutputChannel("Failed to list problems. Please open the output channel for details.", DialogType.error);
+            }
+        }
     }
 
     public getTreeItem(element: LeetCodeNode): vscode.TreeItem | Thenable<vscode.TreeItem> {
@@ -37,18 +76,42 @@ export class LeetCodeTreeDataProvider implements vscode.TreeDataProvider<LeetCod
                 },
             };
         }
+        if (element.id === "switchEndpoint") {
+            return {
+                label: element.name,
+                collapsibleState: vscode.TreeItemCollapsibleState.None,
+                command: {
+                    command: "leetcode.toggleLeetCodeCn",
+                    title: "Switch Endpoint",
+                    arguments: [element.endpoint],
+                },
+            };
+        }
 
         let contextValue: string;
-        if (element.isProblem) {
+        if (element.endpoint) {
+            // The problem actions only apply to the active endpoint
+            contextValue = "inactive-endpoint";
+        } else if (element.isProblem) {
             contextValue = element.isFavorite ? "problem-favorite" : "problem";
+        } else if (element.id.startsWith(`${Category.Lists}.`)) {
+            contextValue = "list";
+        } else if (element.id.startsWith(`${Category.Similar}.`)) {
+            contextValue = "similar";
         } else {
             contextValue = element.id.toLowerCase();
         }
 
+        const solutionFiles: string[] = element.isProblem && !element.endpoint ? solutionIndex.getSolutionFiles(element.id) : [];
+        let description: string | undefined = solutionFiles.length > 0 ? "local" : undefined;
+        if (element.id === `${Category.Endpoint}.${getLeetCodeEndpoint()}`) {
+            description = "active";
+        }
         return {
             label: element.isProblem ? `[${element.id}] ${element.name}` : element.name,
-            tooltip: this.getSubCategoryTooltip(element),
-            collapsibleState: element.isProblem ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Collapsed,
+            description,
+            tooltip: solutionFiles.length > 0 ? ["Local solutions:", ...solutionFiles].join(os.EOL) : this.getSubCategoryTooltip(element),
+            collapsibleState: this.getCollapsibleState(element),
             iconPath: this.parseIconPathFromProblemState(element),
             command: element.isProblem ? element.previewCommand : undefined,
             contextValue,
@@ -56,6 +119,18 @@ export class LeetCodeTreeDataProvider implements vscode.TreeDataProvider<LeetCod
     }
 
     public getChildren(element?: LeetCodeNode | undefined): vscode.ProviderResult<LeetCodeNode[]> {
+        if (!element && shouldShowBothEndpoints()) {
+            return explorerNodeManager.getEndpointRootNodes();
+        }
+        if (element && element.id.startsWith(`${Category.Endpoint}.`)) {
+            const endpoint: string = element.id.substring(Category.Endpoint.length + 1);
+            // The categories of the active endpoint are shown under its root
+            return endpoint === getLeetCodeEndpoint() ? this.getActiveEndpointChildren() : explorerNodeManager.getInactiveEndpointNodes(endpoint);
+        }
+        return this.getActiveEndpointChildren(element);
+    }
+
+    private getActiveEndpointChildren(element?: LeetCodeNode): vscode.ProviderResult<LeetCodeNode[]> {
         if (!leetCodeManager.getUser()) {
             return [
                 new LeetCodeNode(Object.assign({}, defaultProblem, {
@@ -68,25 +143,78 @@ export class LeetCodeTreeDataProvider implements vscode.TreeDataProvider<LeetCod
             return explorerNodeManager.getRootNodes();
         } else {
             switch (element.id) { // First-level
-                case Category.All:
-                    return explorerNodeManager.getAllNodes();
-                case Category.Favorite:
-                    return explorerNodeManager.getFavoriteNodes();
+                case Category.Daily:
+                    return explorerNodeManager.getDailyNodes();
+                case Category.Review:
+                    return explorerNodeManager.getReviewNodes();
                 case Category.Difficulty:
                     return explorerNodeManager.getAllDifficultyNodes();
                 case Category.Tag:
                     return explorerNodeManager.getAllTagNodes();
                 case Category.Company:
                     return explorerNodeManager.getAllCompanyNodes();
+                case Category.Lists:
+                    return explorerNodeManager.getAllListNodes();
+                case Category.Local:
+                    return explorerNodeManager.getLocalSolutionNodes();
                 default:
                     if (element.isProblem) {
-                        return [];
+                        return [explorerNodeManager.getSimilarCategoryNode(element.id)];
+                    }
+                    if (element.id.startsWith(`${Category.Similar}.`)) {
+                        return explorerNodeManager.getSimilarNodes(element.id.substring(Category.Similar.length + 1));
                     }
                     return explorerNodeManager.getChildrenNodesById(element.id);
             }
         }
     }
 
+    private getCollapsibleState(element: LeetCodeNode): vscode.TreeItemCollapsibleState {
+        if (element.endpoint) {
+            return vscode.TreeItemCollapsibleState.None;
+        }
+        if (element.id.startsWith(`${Category.Endpoint}.`)) {
+            return element.id === `${Category.Endpoint}.${getLeetCodeEndpoint()}` ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+        }
+        if (element.isProblem) {
+            // The similar problems are listed once they are loaded, e.g. by the preview, so that no request is sent for each problem
+            const similarProblems: ISimilarProblem[] | undefined = similarProblemManager.getLoadedSimilarProblems(element.id);
+            return similarProblems && similarProblems.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+        }
+        // Today's challenge is shown at a glance
+        return element.id === Category.Daily ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+    }
+
+    private updateSyncMessage(offline: boolean): void {
+        const syncTime: number | undefined = explorerNodeManager.syncTime;
+        if (!leetCodeManager.getUser() || !syncTime) {
+            this.setMessage(undefined);
+            return;
+        }
+        const time: string = new Date(syncTime).toLocaleString();
+        this.setMessage(offline ? `Offline, showing the problem list synced at ${time}` : `Problem list synced at ${time}`);
+    }
+
+    private setMessage(syncMessage: string | undefined): void {
+        this.syncMessage = syncMessage;
+        this.updateMessage();
+    }
+
+    // The active filter is shown in the description of the view, and the message tells if nothing matches the filter
+    private updateMessage(): void {
+        if (!this.treeView) {
+            return;
+        }
+        const filterDescription: string | undefined = leetCodeManager.getUser() ? explorerFilter.describe() : undefined;
+        this.treeView.description = filterDescription;
+        const allNodes: LeetCodeNode[] = explorerNodeManager.getAllNodes();
+        const emptyMessage: string | undefined = filterDescription && allNodes.length > 0 && explorerFilter.apply(allNodes).length === 0
+            ? "No problem matches the filter."
+            : undefined;
+        const lines: string[] = [emptyMessage, this.syncMessage].filter((line: string | undefined): line is string => !!line);
+        this.treeView.message = lines.length > 0 ? lines.join(os.EOL) : undefined;
+    }
+
     private parseIconPathFromProblemState(element: LeetCodeNode): string {
         if (!element.isProblem) {
             return "";
@@ -108,7 +236,8 @@ export class LeetCodeTreeDataProvider implements vscode.TreeDataProvider<LeetCod
 
     private getSubCategoryTooltip(element: LeetCodeNode): string {
         // return '' unless it is a sub-category node
-        if (element.isProblem || element.id === "ROOT" || element.id in Category) {
+        if (element.isProblem || element.id === "ROOT" || element.id in Category
+            || element.id.startsWith(`${Category.Similar}.`) || element.id.startsWith(`${Category.Endpoint}.`)) {
             return "";
         }
 
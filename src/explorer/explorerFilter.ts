@@ -0,0 +1,131 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as _ from "lodash";
+import * as vscode from "vscode";
+import { defaultProblemFilter, IProblemFilter, ProblemState, SortingStrategy } from "../shared";
+import { LeetCodeNode } from "./LeetCodeNode";
+
+const filterStateKey: string = "leetcode.explorerFilter";
+const difficultyOrder: string[] = ["Easy", "Medium", "Hard"];
+
+export const problemStateNames: Map<ProblemState, string> = new Map([
+    [ProblemState.AC, "Accepted"],
+    [ProblemState.NotAC, "Not Accepted"],
+    [ProblemState.Unknown, "Not Attempted"],
+]);
+
+class ExplorerFilter implements vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private onDidChangeFilterEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+
+    public get onDidChangeFilter(): vscode.Event<void> {
+        return this.onDidChangeFilterEmitter.event;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+    }
+
+    public getFilter(): IProblemFilter {
+        const filter: Partial<IProblemFilter> = this.context ? this.context.globalState.get(filterStateKey, {}) : {};
+        return Object.assign({}, defaultProblemFilter, filter);
+    }
+
+    public async setFilter(filter: IProblemFilter): Promise<void> {
+        await this.context.globalState.update(filterStateKey, filter);
+        this.onDidChangeFilterEmitter.fire();
+    }
+
+    public async reset(): Promise<void> {
+        await this.setFilter(defaultProblemFilter);
+    }
+
+    // Only the predicate of the filter, for the nodes which are kept in their own order
+    public matches(node: LeetCodeNode): boolean {
+        return isMatched(node, this.getFilter());
+    }
+
+    public apply(nodes: LeetCodeNode[]): LeetCodeNode[] {
+        const filter: IProblemFilter = this.getFilter();
+        const res: LeetCodeNode[] = nodes.filter((node: LeetCodeNode) => isMatched(node, filter));
+        res.sort((a: LeetCodeNode, b: LeetCodeNode) => compare(a, b, filter.sortingStrategy));
+        if (filter.descending) {
+            res.reverse();
+        }
+        return res;
+    }
+
+    // A short summary of the active filter, or undefined if nothing is filtered
+    public describe(): string | undefined {
+        const filter: IProblemFilter = this.getFilter();
+        const parts: string[] = [];
+        if (filter.difficulties.length > 0) {
+            parts.push(filter.difficulties.join("/"));
+        }
+        if (filter.states.length > 0) {
+            parts.push(filter.states.map((state: ProblemState) => problemStateNames.get(state)).join("/"));
+        }
+        if (filter.includedTags.length > 0 || filter.excludedTags.length > 0) {
+            parts.push(`tags: ${describeKeys(filter.includedTags, filter.excludedTags)}`);
+        }
+        if (filter.includedCompanies.length > 0 || filter.excludedCompanies.length > 0) {
+            parts.push(`companies: ${describeKeys(filter.includedCompanies, filter.excludedCompanies)}`);
+        }
+        if (filter.minPassRate > 0 || filter.maxPassRate < 100) {
+            parts.push(`pass rate ${filter.minPassRate}%-${filter.maxPassRate}%`);
+        }
+        if (filter.favoriteOnly) {
+            parts.push("favorites");
+        }
+        if (filter.locked !== undefined) {
+            parts.push(filter.locked ? "locked" : "unlocked");
+        }
+        if (filter.sortingStrategy !== SortingStrategy.Id || filter.descending) {
+            parts.push(`sorted by ${filter.sortingStrategy}${filter.descending ? " (descending)" : ""}`);
+        }
+        return parts.length > 0 ? `Filter: ${parts.join(", ")}` : undefined;
+    }
+
+    public dispose(): void {
+        this.onDidChangeFilterEmitter.dispose();
+    }
+}
+
+function isMatched(node: LeetCodeNode, filter: IProblemFilter): boolean {
+    const passRate: number = parseFloat(node.passRate);
+    return (filter.difficulties.length === 0 || filter.difficulties.indexOf(node.difficulty) >= 0)
+        && (filter.states.length === 0 || filter.states.indexOf(node.state) >= 0)
+        && filter.includedTags.every((tag: string) => node.tags.indexOf(tag) >= 0)
+        && !filter.excludedTags.some((tag: string) => node.tags.indexOf(tag) >= 0)
+        && filter.includedCompanies.every((company: string) => node.companies.indexOf(company) >= 0)
+        && !filter.excludedCompanies.some((company: string) => node.companies.indexOf(company) >= 0)
+        && (isNaN(passRate) || (passRate >= filter.minPassRate && passRate <= filter.maxPassRate))
+        && (!filter.favoriteOnly || node.isFavorite)
+        && (filter.locked === undefined || node.locked === filter.locked);
+}
+
+function compare(a: LeetCodeNode, b: LeetCodeNode, sortingStrategy: SortingStrategy): number {
+    switch (sortingStrategy) {
+        case SortingStrategy.Name:
+            return a.name.localeCompare(b.name);
+        case SortingStrategy.PassRate:
+            return (parseFloat(a.passRate) || 0) - (parseFloat(b.passRate) || 0);
+        case SortingStrategy.Difficulty:
+            return difficultyOrder.indexOf(a.difficulty) - difficultyOrder.indexOf(b.difficulty) || compareId(a, b);
+        default:
+            return compareId(a, b);
+    }
+}
+
+// The id could be non-numeric, e.g. the problems of LeetCode CN like "面试题 01.01"
+function compareId(a: LeetCodeNode, b: LeetCodeNode): number {
+    const diff: number = Number(a.id) - Number(b.id);
+    return isNaN(diff) ? a.id.localeCompare(b.id) : diff;
+}
+
+function describeKeys(included: string[], excluded: string[]): string {
+    return included.map(_.startCase).concat(excluded.map((key: string) => `-${_.startCase(key)}`)).join(" ");
+}
+
+export const explorerFilter: ExplorerFilter = new ExplorerFilter();
@@ -3,35 +3,93 @@
 
 import * as _ from "lodash";
 import { Disposable } from "vscode";
+import { leetCodeClient } from "../client/leetCodeClient";
 import * as list from "../commands/list";
-import { Category, defaultProblem, ProblemState } from "../shared";
+import { getLeetCodeEndpoint } from "../commands/plugin";
+import { dailyChallengeManager } from "../daily/dailyChallengeManager";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { problemListManager } from "../lists/problemListManager";
+import { reviewManager } from "../review/reviewManager";
+import { Category, defaultProblem, Endpoint, IDailyChallenge, IProblem, IProblemList, ISimilarProblem, ProblemState } from "../shared";
+import { similarProblemManager } from "../similar/similarProblemManager";
+import { solutionIndex } from "../solutions/solutionIndex";
 import { shouldHideSolvedProblem } from "../utils/settingUtils";
+import { explorerFilter } from "./explorerFilter";
 import { LeetCodeNode } from "./LeetCodeNode";
+import { IProblemCache, problemCache } from "./problemCache";
 
 class ExplorerNodeManager implements Disposable {
     private explorerNodeMap: Map<string, LeetCodeNode> = new Map<string, LeetCodeNode>();
+    // The solved problems are not in the explorer node map when "leetcode.hideSolved" is on
+    private hiddenNodeMap: Map<string, LeetCodeNode> = new Map<string, LeetCodeNode>();
     private companySet: Set<string> = new Set<string>();
     private tagSet: Set<string> = new Set<string>();
+    private lastSyncTime: number | undefined;
+
+    public get syncTime(): number | undefined {
+        return this.lastSyncTime;
+    }
+
+    /**
+     * Render the problems from the local cache, returns false if there is no cache for the current endpoint.
+     */
+    public async loadCache(): Promise<boolean> {
+        const cache: IProblemCache | undefined = await problemCache.load(getLeetCodeEndpoint());
+        if (!cache) {
+            return false;
+        }
+        this.setProblems(cache.problems);
+        this.lastSyncTime = cache.timestamp;
+        return true;
+    }
+
+    /**
+     * Sync the problems with LeetCode and update the cache.
+     * Returns the nodes whose data has changed, or undefined if the structure of the explorer has changed,
+     * which includes the changes of the fields deciding the membership of the categories and the filters.
+     */
+    public async refreshCache(): Promise<LeetCodeNode[] | undefined> {
+        const problems: IProblem[] = await list.fetchProblems();
+        if (problems.length === 0) {
+            // Signed out
+            this.dispose();
+            return undefined;
+        }
+        this.lastSyncTime = (await problemCache.save(getLeetCodeEndpoint(), problems)).timestamp;
 
-    public async refreshCache(): Promise<void> {
-        this.dispose();
         const shouldHideSolved: boolean = shouldHideSolvedProblem();
-        for (const problem of await list.listProblems()) {
-            if (shouldHideSolved && problem.state === ProblemState.AC) {
+        const visibleProblems: IProblem[] = problems.filter((problem: IProblem) => !shouldHideSolved || problem.state !== ProblemState.AC);
+        const isStructureChanged: boolean = visibleProblems.length !== this.explorerNodeMap.size
+            || visibleProblems.some((problem: IProblem) => !this.explorerNodeMap.has(problem.id));
+        if (isStructureChanged) {
+            this.setProblems(problems);
+            return undefined;
+        }
+
+        const changedNodes: LeetCodeNode[] = [];
+        let isMembershipChanged: boolean = false;
+        for (const problem of problems) {
+            const node: LeetCodeNode | undefined = this.getNodeById(problem.id);
+            if (!node) {
                 continue;
             }
-            this.explorerNodeMap.set(problem.id, new LeetCodeNode(problem));
-            for (const company of problem.companies) {
-                this.companySet.add(company);
-            }
-            for (const tag of problem.tags) {
-                this.tagSet.add(tag);
+            // The favorite and the state decide the "Favorite" and "Review" categories and the filters
+            if (node.state !== problem.state || node.isFavorite !== problem.isFavorite) {
+                isMembershipChanged = true;
+            } else if (node.locked !== problem.locked) {
+                changedNodes.push(node);
             }
+            node.update(problem);
         }
+        return isMembershipChanged ? undefined : changedNodes;
     }
 
     public getRootNodes(): LeetCodeNode[] {
         return [
+            new LeetCodeNode(Object.assign({}, defaultProblem, {
+                id: Category.Daily,
+                name: Category.Daily,
+            }), false),
             new LeetCodeNode(Object.assign({}, defaultProblem, {
                 id: Category.All,
                 name: Category.All,
@@ -52,11 +110,52 @@ class ExplorerNodeManager implements Disposable {
                 id: Category.Favorite,
                 name: Category.Favorite,
             }), false),
+            new LeetCodeNode(Object.assign({}, defaultProblem, {
+                id: Category.Review,
+                name: Category.Review,
+            }), false),
+            new LeetCodeNode(Object.assign({}, defaultProblem, {
+                id: Category.Lists,
+                name: Category.Lists,
+            }), false),
+            new LeetCodeNode(Object.assign({}, defaultProblem, {
+                id: Category.Local,
+                name: "Local Solutions",
+            }), false),
         ];
     }
 
-    public getAllNodes(): LeetCodeNode[] {
-        return Array.from(this.explorerNodeMap.values());
+    // The roots of both endpoints, the categories of the active one are shown under its root
+    public getEndpointRootNodes(): LeetCodeNode[] {
+        return [
+            new LeetCodeNode(Object.assign({}, defaultProblem, {
+                id: `${Category.Endpoint}.${Endpoint.LeetCode}`,
+                name: "LeetCode (leetcode.com)",
+            }), false),
+            new LeetCodeNode(Object.assign({}, defaultProblem, {
+                id: `${Category.Endpoint}.${Endpoint.LeetCodeCN}`,
+                name: "力扣 (leetcode-cn.com)",
+            }), false),
+        ];
+    }
+
+    // The problems of the inactive endpoint are read from its cache, which is synced when the endpoint is active
+    public async getInactiveEndpointNodes(endpoint: string): Promise<LeetCodeNode[]> {
+        const cache: IProblemCache | undefined = await problemCache.load(endpoint);
+        if (!cache) {
+            return [
+                new LeetCodeNode(Object.assign({}, defaultProblem, {
+                    id: "switchEndpoint",
+                    name: "Switch to this endpoint to sync the problems",
+                }), false, endpoint),
+            ];
+        }
+        return cache.problems.map((problem: IProblem) => new LeetCodeNode(problem, true, endpoint));
+    }
+
+    public getAllNodes(includeHidden: boolean = false): LeetCodeNode[] {
+        const nodes: LeetCodeNode[] = Array.from(this.explorerNodeMap.values());
+        return includeHidden ? nodes.concat(Array.from(this.hiddenNodeMap.values())) : nodes;
     }
 
     public getAllDifficultyNodes(): LeetCodeNode[] {
@@ -103,26 +202,121 @@ class ExplorerNodeManager implements Disposable {
         return res;
     }
 
+    public getAllListNodes(): LeetCodeNode[] {
+        return problemListManager.getLists().map((problemList: IProblemList) => new LeetCodeNode(Object.assign({}, defaultProblem, {
+            id: `${Category.Lists}.${problemList.name}`,
+            name: problemList.name,
+        }), false));
+    }
+
+    public getTags(): string[] {
+        return Array.from(this.tagSet.values()).sort();
+    }
+
+    public getCompanies(): string[] {
+        return Array.from(this.companySet.values()).sort();
+    }
+
     public getNodeById(id: string): LeetCodeNode | undefined {
-        return this.explorerNodeMap.get(id);
+        return this.explorerNodeMap.get(id) || this.hiddenNodeMap.get(id);
     }
 
-    public getFavoriteNodes(): LeetCodeNode[] {
+    // Today's challenge is pinned, so the active filter doesn't apply to it
+    public async getDailyNodes(): Promise<LeetCodeNode[]> {
+        let challenge: IDailyChallenge;
+        try {
+            challenge = await dailyChallengeManager.getChallenge();
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to fetch the daily challenge: ${error}`);
+            return [];
+        }
+        return [this.getDailyNode(challenge)];
+    }
+
+    // The problem of the challenge may be missing in the explorer, e.g. before the problem list is synced
+    public getDailyNode(challenge: IDailyChallenge): LeetCodeNode {
+        return this.getNodeById(challenge.problemId) || new LeetCodeNode(Object.assign({}, defaultProblem, {
+            id: challenge.problemId,
+            name: challenge.name,
+            difficulty: challenge.difficulty,
+        }));
+    }
+
+    // The similar problems are matched by the title slug, since LeetCode doesn't return their ids
+    public async getSimilarNodes(problemId: string, titleSlug?: string): Promise<LeetCodeNode[]> {
         const res: LeetCodeNode[] = [];
-        for (const node of this.explorerNodeMap.values()) {
-            if (node.isFavorite) {
+        try {
+            const similarProblems: ISimilarProblem[] = await similarProblemManager.getSimilarProblems(problemId, titleSlug);
+            for (const similarProblem of similarProblems) {
+                const id: string | undefined = await leetCodeClient.getProblemId(similarProblem.titleSlug);
+                const node: LeetCodeNode | undefined = id ? this.getNodeById(id) : undefined;
+                if (node) {
+                    res.push(node);
+                }
+            }
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to fetch the similar problems of ${problemId}: ${error}`);
+        }
+        return res;
+    }
+
+    // The node of the "Similar Problems" under each problem
+    public getSimilarCategoryNode(problemId: string): LeetCodeNode {
+        return new LeetCodeNode(Object.assign({}, defaultProblem, {
+            id: `${Category.Similar}.${problemId}`,
+            name: "Similar Problems",
+        }), false);
+    }
+
+    // The due problems are filtered but not sorted, so that the most overdue ones are kept at the top
+    public getReviewNodes(): LeetCodeNode[] {
+        const res: LeetCodeNode[] = [];
+        for (const item of reviewManager.getDueItems()) {
+            const node: LeetCodeNode | undefined = this.getNodeById(item.problemId);
+            if (node && explorerFilter.matches(node)) {
                 res.push(node);
             }
         }
         return res;
     }
 
+    // The problems which have solution files in the workspace, including the solved ones hidden by "leetcode.hideSolved"
+    public getLocalSolutionNodes(): LeetCodeNode[] {
+        const res: LeetCodeNode[] = [];
+        for (const problemId of solutionIndex.getProblemIds()) {
+            const node: LeetCodeNode | undefined = this.getNodeById(problemId);
+            if (node) {
+                res.push(node);
+            }
+        }
+        return explorerFilter.apply(res);
+    }
+
     public getChildrenNodesById(id: string): LeetCodeNode[] {
-        // The sub-category node's id is named as {Category.SubName}
+        // The sub-category node's id is named as {Category.SubName}, the active filter applies to every category
         const metaInfo: string[] = id.split(".");
         const res: LeetCodeNode[] = [];
+        if (metaInfo[0] === Category.Lists) {
+            // The list name could contain "."
+            const problemList: IProblemList | undefined = problemListManager.getList(id.substring(Category.Lists.length + 1));
+            for (const problemId of problemList ? problemList.problems : []) {
+                const node: LeetCodeNode | undefined = this.explorerNodeMap.get(problemId);
+                if (node) {
+                    res.push(node);
+                }
+            }
+            return explorerFilter.apply(res);
+        }
         for (const node of this.explorerNodeMap.values()) {
             switch (metaInfo[0]) {
+                case Category.All:
+                    res.push(node);
+                    break;
+                case Category.Favorite:
+                    if (node.isFavorite) {
+                        res.push(node);
+                    }
+                    break;
                 case Category.Company:
                     if (node.companies.indexOf(metaInfo[1]) >= 0) {
                         res.push(node);
@@ -142,15 +336,34 @@ class ExplorerNodeManager implements Disposable {
                     break;
             }
         }
-        return res;
+        return explorerFilter.apply(res);
     }
 
     public dispose(): void {
         this.explorerNodeMap.clear();
+        this.hiddenNodeMap.clear();
         this.companySet.clear();
         this.tagSet.clear();
     }
 
+    private setProblems(problems: IProblem[]): void {
+        this.dispose();
+        const shouldHideSolved: boolean = shouldHideSolvedProblem();
+        for (const problem of problems) {
+            if (shouldHideSolved && problem.state === ProblemState.AC) {
+                this.hiddenNodeMap.set(problem.id, new LeetCodeNode(problem));
+                continue;
+            }
+            this.explorerNodeMap.set(problem.id, new LeetCodeNode(problem));
+            for (const company of problem.companies) {
+                this.companySet.add(company);
+            }
+            for (const tag of problem.tags) {
+                this.tagSet.add(tag);
+            }
+        }
+    }
+
     private sortSubCategoryNodes(subCategoryNodes: LeetCodeNode[], category: Category): void {
         switch (category) {
             case Category.Difficulty:
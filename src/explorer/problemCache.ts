@@ -0,0 +1,70 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as vscode from "vscode";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { IProblem } from "../shared";
+
+// Bump the version whenever the shape of IProblem changes, so that the stale cache will be dropped
+const problemCacheVersion: number = 1;
+
+export interface IProblemCache {
+    version: number;
+    endpoint: string;
+    timestamp: number;
+    problems: IProblem[];
+}
+
+class ProblemCache {
+    private cacheRootPath: string;
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.cacheRootPath = path.join(context.globalStoragePath, "cache");
+    }
+
+    public async load(endpoint: string): Promise<IProblemCache | undefined> {
+        const cacheFilePath: string = this.getCacheFilePath(endpoint);
+        if (!await fse.pathExists(cacheFilePath)) {
+            return undefined;
+        }
+        try {
+            const cache: IProblemCache = await fse.readJson(cacheFilePath);
+            if (cache.version !== problemCacheVersion || cache.endpoint !== endpoint) {
+                return undefined;
+            }
+            return cache;
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to read the problem list cache from ${cacheFilePath}: ${error}`);
+            return undefined;
+        }
+    }
+
+    public async save(endpoint: string, problems: IProblem[]): Promise<IProblemCache> {
+        const cache: IProblemCache = {
+            version: problemCacheVersion,
+            endpoint,
+            timestamp: Date.now(),
+            problems,
+        };
+        try {
+            await fse.outputJson(this.getCacheFilePath(endpoint), cache);
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to save the problem list cache: ${error}`);
+        }
+        return cache;
+    }
+
+    public async clear(): Promise<void> {
+        if (this.cacheRootPath) {
+            await fse.remove(this.cacheRootPath);
+        }
+    }
+
+    private getCacheFilePath(endpoint: string): string {
+        return path.join(this.cacheRootPath, `problems.${endpoint}.json`);
+    }
+}
+
+export const problemCache: ProblemCache = new ProblemCache();
@@ -2,31 +2,61 @@
 // Licensed under the MIT license.
 
 import * as vscode from "vscode";
+import { leetCodeClient } from "./client/leetCodeClient";
+import { nodeTransport } from "./client/transport";
 import { codeLensController } from "./codelens/CodeLensController";
+import { customCodeLensProvider } from "./codelens/CustomCodeLensProvider";
 import * as cache from "./commands/cache";
+import * as contest from "./commands/contest";
+import * as daily from "./commands/daily";
+import * as filter from "./commands/filter";
+import * as history from "./commands/history";
 import { switchDefaultLanguage } from "./commands/language";
+import * as lists from "./commands/lists";
 import * as plugin from "./commands/plugin";
+import * as quickMenu from "./commands/quickMenu";
+import * as review from "./commands/review";
 import * as session from "./commands/session";
 import * as show from "./commands/show";
 import * as star from "./commands/star";
+import * as statistics from "./commands/statistics";
 import * as submit from "./commands/submit";
 import * as test from "./commands/test";
+import { contestManager } from "./contest/contestManager";
+import { credentialStore } from "./credentials/credentialStore";
+import { dailyChallengeManager } from "./daily/dailyChallengeManager";
+import { submissionDiagnostics } from "./diagnostics/submissionDiagnostics";
+import { explorerFilter } from "./explorer/explorerFilter";
 import { explorerNodeManager } from "./explorer/explorerNodeManager";
 import { LeetCodeNode } from "./explorer/LeetCodeNode";
 import { leetCodeTreeDataProvider } from "./explorer/LeetCodeTreeDataProvider";
+import { problemCache } from "./explorer/problemCache";
+import { hintManager } from "./hints/hintManager";
+import { historyDocumentProvider, historyScheme } from "./history/historyDocumentProvider";
+import { historyManager } from "./history/historyManager";
 import { leetCodeChannel } from "./leetCodeChannel";
 import { leetCodeExecutor } from "./leetCodeExecutor";
 import { leetCodeManager } from "./leetCodeManager";
+import { problemListManager } from "./lists/problemListManager";
+import { getProblemProvider } from "./providers/problemProvider";
+import { reviewManager } from "./review/reviewManager";
+import { IContest } from "./shared";
+import { similarProblemManager } from "./similar/similarProblemManager";
+import { solutionIndex } from "./solutions/solutionIndex";
 import { leetCodeStatusBarController } from "./statusbar/leetCodeStatusBarController";
+import { getHttpProxy } from "./utils/settingUtils";
 import { DialogType, promptForOpenOutputChannel } from "./utils/uiUtils";
+import { leetCodeContestProvider } from "./webview/leetCodeContestProvider";
+import { leetCodeHistoryProvider } from "./webview/leetCodeHistoryProvider";
 import { leetCodePreviewProvider } from "./webview/leetCodePreviewProvider";
 import { leetCodeSolutionProvider } from "./webview/leetCodeSolutionProvider";
+import { leetCodeStatisticsProvider } from "./webview/leetCodeStatisticsProvider";
 import { leetCodeSubmissionProvider } from "./webview/leetCodeSubmissionProvider";
 import { markdownEngine } from "./webview/markdownEngine";
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
     try {
-        if (!await leetCodeExecutor.meetRequirements(context)) {
+        if (!await getProblemProvider().meetRequirements(context)) {
             throw new Error("The environment doesn't meet requirements.");
         }
 
@@ -35,7 +65,40 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             leetCodeTreeDataProvider.refresh();
         });
 
+        leetCodeClient.setEndpoint(plugin.getLeetCodeEndpoint());
+        nodeTransport.setProxy(getHttpProxy());
+        credentialStore.initialize(context);
+        leetCodeExecutor.setSessionExpiredHandler(() => leetCodeManager.reauthenticate());
+        leetCodeClient.setSessionExpiredHandler(() => leetCodeManager.reauthenticate());
         leetCodeTreeDataProvider.initialize(context);
+        problemCache.initialize(context);
+        reviewManager.initialize(context);
+        explorerFilter.initialize(context);
+        contestManager.initialize(context);
+        dailyChallengeManager.initialize(context);
+        leetCodeStatusBarController.updateContest(contestManager.getContest());
+        historyManager.initialize(context);
+        hintManager.initialize(context);
+        context.subscriptions.push(
+            reviewManager.onDidChangeReview(() => leetCodeTreeDataProvider.rerender()),
+            dailyChallengeManager.onDidChangeDaily(() => leetCodeTreeDataProvider.rerender()),
+            contestManager.onDidChangeContest((c: IContest) => leetCodeStatusBarController.updateContest(c)),
+            contestManager.onDidChangeContest(() => customCodeLensProvider.refresh()),
+            contestManager.onDidChangeContest(() => leetCodePreviewProvider.refresh()),
+            contestManager.onDidFinishContest((c: IContest) => leetCodeContestProvider.show(c)),
+            explorerFilter.onDidChangeFilter(() => leetCodeTreeDataProvider.rerender()),
+            leetCodeTreeDataProvider.onDidChangeTreeData(() => leetCodeStatusBarController.updateActiveProblem()),
+            problemListManager.onDidChangeLists(() => leetCodeTreeDataProvider.rerender()),
+            solutionIndex.onDidChangeIndex(() => leetCodeTreeDataProvider.rerender()),
+            solutionIndex.onDidChangeIndex(() => customCodeLensProvider.refresh()),
+            similarProblemManager.onDidChangeSimilarProblems(() => leetCodeTreeDataProvider.rerender()),
+        );
+        leetCodeStatusBarController.updateProgress();
+        await problemListManager.initialize(context);
+        solutionIndex.initialize().catch((error: Error) => leetCodeChannel.appendLine(`Failed to index the solution files: ${error}`));
+
+        const leetCodeTreeView: vscode.TreeView<LeetCodeNode> = vscode.window.createTreeView("leetCodeExplorer", { treeDataProvider: leetCodeTreeDataProvider, showCollapseAll: true });
+        leetCodeTreeDataProvider.setTreeView(leetCodeTreeView);
 
         context.subscriptions.push(
             leetCodeStatusBarController,
@@ -43,31 +106,73 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             leetCodePreviewProvider,
             leetCodeSubmissionProvider,
             leetCodeSolutionProvider,
-            leetCodeExecutor,
+            leetCodeHistoryProvider,
+            leetCodeStatisticsProvider,
+            leetCodeContestProvider,
+            contestManager,
+            dailyChallengeManager,
+            getProblemProvider(),
             markdownEngine,
             codeLensController,
+            submissionDiagnostics,
             explorerNodeManager,
-            vscode.window.createTreeView("leetCodeExplorer", { treeDataProvider: leetCodeTreeDataProvider, showCollapseAll: true }),
+            explorerFilter,
+            historyManager,
+            reviewManager,
+            similarProblemManager,
+            problemListManager,
+            solutionIndex,
+            vscode.workspace.registerTextDocumentContentProvider(historyScheme, historyDocumentProvider),
+            leetCodeTreeView,
+            vscode.workspace.onDidChangeConfiguration((event: vscode.ConfigurationChangeEvent) => {
+                if (event.affectsConfiguration("leetcode.endpoint")) {
+                    plugin.applyEndpoint();
+                } else if (event.affectsConfiguration("leetcode.explorer.showBothEndpoints")) {
+                    leetCodeTreeDataProvider.rerender();
+                } else if (event.affectsConfiguration("http.proxy")) {
+                    nodeTransport.setProxy(getHttpProxy());
+                }
+            }),
             vscode.commands.registerCommand("leetcode.deleteCache", () => cache.deleteCache()),
-            vscode.commands.registerCommand("leetcode.toggleLeetCodeCn", () => plugin.switchEndpoint()),
+            vscode.commands.registerCommand("leetcode.toggleLeetCodeCn", (endpoint?: string, node?: LeetCodeNode) => plugin.switchEndpoint(endpoint, node)),
             vscode.commands.registerCommand("leetcode.signin", () => leetCodeManager.signIn()),
             vscode.commands.registerCommand("leetcode.signout", () => leetCodeManager.signOut()),
             vscode.commands.registerCommand("leetcode.manageSessions", () => session.manageSessions()),
             vscode.commands.registerCommand("leetcode.previewProblem", (node: LeetCodeNode) => show.previewProblem(node)),
             vscode.commands.registerCommand("leetcode.showProblem", (node: LeetCodeNode) => show.showProblem(node)),
+            vscode.commands.registerCommand("leetcode.solveInAnotherLanguage", (input?: LeetCodeNode | vscode.Uri) => show.solveInAnotherLanguage(input)),
             vscode.commands.registerCommand("leetcode.pickOne", () => show.pickOne()),
+            vscode.commands.registerCommand("leetcode.showDailyChallenge", () => daily.showDailyChallenge()),
             vscode.commands.registerCommand("leetcode.searchProblem", () => show.searchProblem()),
+            vscode.commands.registerCommand("leetcode.filterExplorer", () => filter.filterExplorer()),
+            vscode.commands.registerCommand("leetcode.exportDescription", (input?: LeetCodeNode | vscode.Uri) => show.exportDescription(input)),
             vscode.commands.registerCommand("leetcode.showSolution", (input: LeetCodeNode | vscode.Uri) => show.showSolution(input)),
             vscode.commands.registerCommand("leetcode.refreshExplorer", () => leetCodeTreeDataProvider.refresh()),
             vscode.commands.registerCommand("leetcode.testSolution", (uri?: vscode.Uri) => test.testSolution(uri)),
+            vscode.commands.registerCommand("leetcode.editTestCases", (uri?: vscode.Uri) => test.editTestCases(uri)),
             vscode.commands.registerCommand("leetcode.submitSolution", (uri?: vscode.Uri) => submit.submitSolution(uri)),
             vscode.commands.registerCommand("leetcode.switchDefaultLanguage", () => switchDefaultLanguage()),
             vscode.commands.registerCommand("leetcode.addFavorite", (node: LeetCodeNode) => star.addFavorite(node)),
             vscode.commands.registerCommand("leetcode.removeFavorite", (node: LeetCodeNode) => star.removeFavorite(node)),
+            vscode.commands.registerCommand("leetcode.createList", () => lists.createList()),
+            vscode.commands.registerCommand("leetcode.renameList", (node?: LeetCodeNode) => lists.renameList(node)),
+            vscode.commands.registerCommand("leetcode.deleteList", (node?: LeetCodeNode) => lists.deleteList(node)),
+            vscode.commands.registerCommand("leetcode.addToList", (node: LeetCodeNode) => lists.addToList(node)),
+            vscode.commands.registerCommand("leetcode.removeFromList", (node: LeetCodeNode) => lists.removeFromList(node)),
+            vscode.commands.registerCommand("leetcode.importLists", () => lists.importLists()),
+            vscode.commands.registerCommand("leetcode.exportList", (node?: LeetCodeNode) => lists.exportList(node)),
+            vscode.commands.registerCommand("leetcode.startVirtualContest", () => contest.startVirtualContest()),
+            vscode.commands.registerCommand("leetcode.endContest", () => contest.endContest()),
+            vscode.commands.registerCommand("leetcode.showContest", () => contest.showContest()),
+            vscode.commands.registerCommand("leetcode.showStatistics", () => statistics.showStatistics()),
+            vscode.commands.registerCommand("leetcode.reviewNext", () => review.reviewNext()),
+            vscode.commands.registerCommand("leetcode.showQuickMenu", () => quickMenu.showQuickMenu()),
+            vscode.commands.registerCommand("leetcode.showHistory", (node: LeetCodeNode) => history.showHistory(node)),
         );
 
-        await leetCodeExecutor.switchEndpoint(plugin.getLeetCodeEndpoint());
+        await getProblemProvider().switchEndpoint(plugin.getLeetCodeEndpoint());
         await leetCodeManager.getLoginStatus();
+        await daily.openDailyChallengeOnStartup();
     } catch (error) {
         leetCodeChannel.appendLine(error.toString());
         promptForOpenOutputChannel("Extension initialization failed. Please open output channel for details.", DialogType.error);
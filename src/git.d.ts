@@ -0,0 +1,80 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// The subset of the API exported by the built-in "vscode.git" extension which is used by this extension.
+// See: https://github.com/microsoft/vscode/blob/master/extensions/git/src/api/git.d.ts
+
+import { Event, SourceControlInputBox, Uri } from "vscode";
+
+export const enum Status {
+    INDEX_MODIFIED,
+    INDEX_ADDED,
+    INDEX_DELETED,
+    INDEX_RENAMED,
+    INDEX_COPIED,
+
+    MODIFIED,
+    DELETED,
+    UNTRACKED,
+    IGNORED,
+    INTENT_TO_ADD,
+
+    ADDED_BY_US,
+    ADDED_BY_THEM,
+    DELETED_BY_US,
+    DELETED_BY_THEM,
+    BOTH_ADDED,
+    BOTH_DELETED,
+    BOTH_MODIFIED,
+}
+
+export interface Change {
+    readonly uri: Uri;
+    readonly originalUri: Uri;
+    readonly renameUri: Uri | undefined;
+    readonly status: Status;
+}
+
+export interface RepositoryState {
+    readonly mergeChanges: Change[];
+    readonly indexChanges: Change[];
+    readonly workingTreeChanges: Change[];
+    readonly onDidChange: Event<void>;
+}
+
+export interface CommitOptions {
+    all?: boolean | "tracked";
+    amend?: boolean;
+    signoff?: boolean;
+    signCommit?: boolean;
+    empty?: boolean;
+}
+
+export interface Repository {
+    readonly rootUri: Uri;
+    readonly inputBox: SourceControlInputBox;
+    readonly state: RepositoryState;
+
+    status(): Promise<void>;
+    add(paths: string[]): Promise<void>;
+    commit(message: string, opts?: CommitOptions): Promise<void>;
+}
+
+export type APIState = "uninitialized" | "initialized";
+
+export interface API {
+    readonly state: APIState;
+    readonly onDidChangeState: Event<APIState>;
+    readonly repositories: Repository[];
+    readonly onDidOpenRepository: Event<Repository>;
+    readonly onDidCloseRepository: Event<Repository>;
+}
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    readonly onDidChangeEnablement: Event<boolean>;
+
+    getAPI(version: 1): API;
+}
@@ -0,0 +1,64 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { leetCodeClient } from "../client/leetCodeClient";
+import { ISubmissionRecord, SubmissionStatus, SubmissionType } from "../shared";
+
+const hintStateKey: string = "leetcode.revealedHints";
+
+interface IHintState {
+    count: number;
+    // When the first hint is revealed
+    revealedAt: number;
+}
+
+class HintManager {
+    private context: vscode.ExtensionContext;
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+    }
+
+    // The hints of the problem in HTML, the question is cached by the client
+    public async getHints(titleSlug: string): Promise<string[]> {
+        return (await leetCodeClient.getQuestion(titleSlug)).hints || [];
+    }
+
+    public getRevealedCount(problemId: string): number {
+        const hintState: IHintState | undefined = this.getHintState(problemId);
+        return hintState ? hintState.count : 0;
+    }
+
+    // The solve is regarded as hint-assisted if any hint is revealed before the first accepted submission in the history
+    public isAssisted(problemId: string, records: ISubmissionRecord[]): boolean {
+        const hintState: IHintState | undefined = this.getHintState(problemId);
+        if (!hintState || hintState.count === 0) {
+            return false;
+        }
+        const accepted: number[] = records
+            .filter((record: ISubmissionRecord) => record.problemId === problemId && record.type === SubmissionType.Submit && record.status === SubmissionStatus.Accepted)
+            .map((record: ISubmissionRecord) => record.timestamp);
+        return accepted.length === 0 || hintState.revealedAt < Math.min(...accepted);
+    }
+
+    public async reveal(problemId: string, count: number): Promise<void> {
+        const state: { [problemId: string]: IHintState } = this.getState();
+        const hintState: IHintState | undefined = this.getHintState(problemId);
+        if (hintState && hintState.count >= count) {
+            return;
+        }
+        state[problemId] = { count, revealedAt: hintState ? hintState.revealedAt : Date.now() };
+        await this.context.globalState.update(hintStateKey, state);
+    }
+
+    private getHintState(problemId: string): IHintState | undefined {
+        return this.getState()[problemId];
+    }
+
+    private getState(): { [problemId: string]: IHintState } {
+        return this.context ? this.context.globalState.get(hintStateKey, {}) : {};
+    }
+}
+
+export const hintManager: HintManager = new HintManager();
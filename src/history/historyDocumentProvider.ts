@@ -0,0 +1,27 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { ISubmissionRecord, langExt } from "../shared";
+import { historyManager } from "./historyManager";
+
+export const historyScheme: string = "leetcode-history";
+
+// Serves the source snapshots of the submission history as readonly documents, so that they can be diffed
+class HistoryDocumentProvider implements vscode.TextDocumentContentProvider {
+
+    public getUri(record: ISubmissionRecord): vscode.Uri {
+        const ext: string = langExt.get(record.language) || "txt";
+        return vscode.Uri.file(`/${record.problemId}/${record.id}.${ext}`).with({ scheme: historyScheme });
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const problemId: string = path.posix.basename(path.posix.dirname(uri.path));
+        const recordId: string = path.posix.basename(uri.path).split(".")[0];
+        const record: ISubmissionRecord | undefined = await historyManager.getRecord(problemId, recordId);
+        return record ? record.code : "";
+    }
+}
+
+export const historyDocumentProvider: HistoryDocumentProvider = new HistoryDocumentProvider();
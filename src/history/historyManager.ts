@@ -0,0 +1,93 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as vscode from "vscode";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { ISubmissionRecord, ISubmissionResult, SubmissionType } from "../shared";
+import { getLanguageFromFile, getNodeIdFromFile } from "../utils/problemUtils";
+import * as wsl from "../utils/wslUtils";
+
+class HistoryManager implements vscode.Disposable {
+    private historyRootPath: string;
+    private onDidChangeHistoryEmitter: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+
+    public get onDidChangeHistory(): vscode.Event<string> {
+        return this.onDidChangeHistoryEmitter.event;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.historyRootPath = path.join(context.globalStoragePath, "history");
+    }
+
+    public async addRecord(filePath: string, type: SubmissionType, result: ISubmissionResult): Promise<ISubmissionRecord | undefined> {
+        try {
+            // The path could be converted to WSL format before being sent to the CLI
+            const fsPath: string = wsl.useWsl() ? await wsl.toWinPath(filePath) : filePath;
+            const problemId: string = await getNodeIdFromFile(fsPath);
+            if (!problemId) {
+                return undefined;
+            }
+            const record: ISubmissionRecord = {
+                id: `${Date.now()}`,
+                problemId,
+                language: await getLanguageFromFile(fsPath) || "",
+                type,
+                status: result.status,
+                runtime: result.runtime,
+                memory: result.memory,
+                timestamp: Date.now(),
+                code: await fse.readFile(fsPath, "utf8"),
+            };
+            const records: ISubmissionRecord[] = await this.getRecords(problemId);
+            records.push(record);
+            await fse.outputJson(this.getHistoryFilePath(problemId), records);
+            this.onDidChangeHistoryEmitter.fire(problemId);
+            return record;
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to save the submission history: ${error}`);
+            return undefined;
+        }
+    }
+
+    public async getRecords(problemId: string): Promise<ISubmissionRecord[]> {
+        const historyFilePath: string = this.getHistoryFilePath(problemId);
+        if (!await fse.pathExists(historyFilePath)) {
+            return [];
+        }
+        try {
+            return await fse.readJson(historyFilePath);
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to read the submission history from ${historyFilePath}: ${error}`);
+            return [];
+        }
+    }
+
+    public async getAllRecords(): Promise<ISubmissionRecord[]> {
+        if (!this.historyRootPath || !await fse.pathExists(this.historyRootPath)) {
+            return [];
+        }
+        const records: ISubmissionRecord[] = [];
+        for (const file of await fse.readdir(this.historyRootPath)) {
+            if (path.extname(file) === ".json") {
+                records.push(...await this.getRecords(path.basename(file, ".json")));
+            }
+        }
+        return records;
+    }
+
+    public async getRecord(problemId: string, recordId: string): Promise<ISubmissionRecord | undefined> {
+        return (await this.getRecords(problemId)).find((record: ISubmissionRecord) => record.id === recordId);
+    }
+
+    public dispose(): void {
+        this.onDidChangeHistoryEmitter.dispose();
+    }
+
+    private getHistoryFilePath(problemId: string): string {
+        return path.join(this.historyRootPath, `${problemId}.json`);
+    }
+}
+
+export const historyManager: HistoryManager = new HistoryManager();
@@ -7,11 +7,11 @@ class LeetCodeChannel implements vscode.Disposable {
     private readonly channel: vscode.OutputChannel = vscode.window.createOutputChannel("LeetCode");
 
     public appendLine(message: string): void {
-        this.channel.appendLine(message);
+        this.channel.appendLine(redactSecrets(message));
     }
 
     public append(message: string): void {
-        this.channel.append(message);
+        this.channel.append(redactSecrets(message));
     }
 
     public show(): void {
@@ -23,4 +23,9 @@ class LeetCodeChannel implements vscode.Disposable {
     }
 }
 
+// The session ids and the CSRF tokens must never be written to the output channel
+function redactSecrets(message: string): string {
+    return message.replace(/(LEETCODE_SESSION|csrftoken|sessionId|sessionCSRF|loginCSRF)(["']?\s*[=:]\s*["']?)[^;"'\s,]+/gi, "$1$2******");
+}
+
 export const leetCodeChannel: LeetCodeChannel = new LeetCodeChannel();
@@ -8,16 +8,26 @@ import * as path from "path";
 import * as requireFromString from "require-from-string";
 import { ExtensionContext } from "vscode";
 import { ConfigurationChangeEvent, Disposable, MessageItem, window, workspace, WorkspaceConfiguration } from "vscode";
-import { Endpoint, IProblem, leetcodeHasInited, supportedPlugins } from "./shared";
+import { getLeetCodeEndpoint } from "./commands/plugin";
+import { leetCodeChannel } from "./leetCodeChannel";
+import { Endpoint, IProblem, ISubmissionResult, leetcodeHasInited, supportedPlugins } from "./shared";
 import { executeCommand, executeCommandWithProgress } from "./utils/cpUtils";
+import { isWindows, usingCmd } from "./utils/osUtils";
+import { parseSubmissionResult } from "./utils/resultUtils";
 import { DialogOptions, openUrl } from "./utils/uiUtils";
 import * as wsl from "./utils/wslUtils";
 import { toWslPath, useWsl } from "./utils/wslUtils";
 
+// Written in the home folder of the endpoint once the plugins are enabled there
+const pluginsMarkerFile: string = ".plugins-enabled";
+
 class LeetCodeExecutor implements Disposable {
     private leetCodeRootPath: string;
     private nodeExecutable: string;
     private configurationChangeListener: Disposable;
+    private cliHomeRootPath: string | undefined;
+    // Returns true if the session is renewed, then the failed command is retried once
+    private sessionExpiredHandler: (() => Promise<boolean>) | undefined;
 
     constructor() {
         this.leetCodeRootPath = path.join(__dirname, "..", "..", "node_modules", "vsc-leetcode-cli");
@@ -37,6 +47,7 @@ class LeetCodeExecutor implements Disposable {
     }
 
     public async meetRequirements(context: ExtensionContext): Promise<boolean> {
+        this.cliHomeRootPath = path.join(context.globalStoragePath, "cli");
         const hasInited: boolean | undefined = context.globalState.get(leetcodeHasInited);
         if (!hasInited) {
             await this.removeOldCache();
@@ -95,14 +106,9 @@ class LeetCodeExecutor implements Disposable {
         );
     }
 
-    public async showProblem(problemNode: IProblem, language: string, filePath: string, showDescriptionInComment: boolean = false): Promise<void> {
+    public async getCodeTemplate(problemNode: IProblem, language: string, showDescriptionInComment: boolean = false): Promise<string> {
         const templateType: string = showDescriptionInComment ? "-cx" : "-c";
-
-        if (!await fse.pathExists(filePath)) {
-            await fse.createFile(filePath);
-            const codeTemplate: string = await this.executeCommandWithProgressEx("Fetching problem data...", this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "show", problemNode.id, templateType, "-l", language]);
-            await fse.writeFile(filePath, codeTemplate);
-        }
+        return await this.executeCommandWithProgressEx("Fetching problem data...", this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "show", problemNode.id, templateType, "-l", language]);
     }
 
     public async showSolution(input: string, language: string): Promise<string> {
@@ -130,32 +136,52 @@ class LeetCodeExecutor implements Disposable {
         return await this.executeCommandEx(this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "session", "-d", id]);
     }
 
-    public async submitSolution(filePath: string): Promise<string> {
+    public async submitSolution(filePath: string): Promise<ISubmissionResult> {
         try {
-            return await this.executeCommandWithProgressEx("Submitting to LeetCode...", this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "submit", `"${filePath}"`]);
+            return parseSubmissionResult(await this.executeCommandWithProgressEx("Submitting to LeetCode...", this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "submit", `"${filePath}"`]));
         } catch (error) {
             if (error.result) {
-                return error.result;
+                return parseSubmissionResult(error.result);
             }
             throw error;
         }
     }
 
-    public async testSolution(filePath: string, testString?: string): Promise<string> {
-        if (testString) {
-            return await this.executeCommandWithProgressEx("Submitting to LeetCode...", this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "test", `"${filePath}"`, "-t", `${testString}`]);
+    public async testSolution(filePath: string, input?: string): Promise<ISubmissionResult> {
+        if (input) {
+            return parseSubmissionResult(await this.executeCommandWithProgressEx("Submitting to LeetCode...", this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "test", `"${filePath}"`, "-t", parseTestString(input)]));
         }
-        return await this.executeCommandWithProgressEx("Submitting to LeetCode...", this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "test", `"${filePath}"`]);
+        return parseSubmissionResult(await this.executeCommandWithProgressEx("Submitting to LeetCode...", this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "test", `"${filePath}"`]));
     }
 
     public async switchEndpoint(endpoint: string): Promise<string> {
+        const options: cp.SpawnOptions = { shell: true, env: await this.getEndpointEnv(endpoint) };
         switch (endpoint) {
             case Endpoint.LeetCodeCN:
-                return await this.executeCommandEx(this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "plugin", "-e", "leetcode.cn"]);
+                await this.initializeEndpointHome(endpoint, options);
+                return "";
             case Endpoint.LeetCode:
             default:
-                return await this.executeCommandEx(this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "plugin", "-d", "leetcode.cn"]);
+                return await this.executeCommandEx(this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "plugin", "-d", "leetcode.cn"], options);
+        }
+    }
+
+    /**
+     * The CLI keeps the login and the cache in the home folder, so each endpoint has its own home folder to keep both signed in.
+     * The US endpoint uses the default home folder, so that the existing login is kept.
+     */
+    public async getEndpointEnv(endpoint: string = getLeetCodeEndpoint()): Promise<{ [key: string]: string }> {
+        const home: string | undefined = this.getEndpointHome(endpoint);
+        if (!home) {
+            return {};
+        }
+        await fse.ensureDir(home);
+        const env: { [key: string]: string } = { HOME: home, USERPROFILE: home };
+        if (useWsl()) {
+            // Share the variables with WSL, and convert the paths to the WSL format
+            env.WSLENV = [process.env.WSLENV, "HOME/p", "USERPROFILE/p"].filter(Boolean).join(":");
         }
+        return env;
     }
 
     public async toggleFavorite(node: IProblem, addToFavorite: boolean): Promise<void> {
@@ -177,6 +203,10 @@ class LeetCodeExecutor implements Disposable {
         return { companies: COMPONIES, tags: TAGS };
     }
 
+    public setSessionExpiredHandler(handler: () => Promise<boolean>): void {
+        this.sessionExpiredHandler = handler;
+    }
+
     public get node(): string {
         return this.nodeExecutable;
     }
@@ -190,18 +220,78 @@ class LeetCodeExecutor implements Disposable {
         return extensionConfig.get<string>("nodePath", "node" /* default value */);
     }
 
-    private async executeCommandEx(command: string, args: string[], options: cp.SpawnOptions = { shell: true }): Promise<string> {
-        if (wsl.useWsl()) {
-            return await executeCommand("wsl", [command].concat(args), options);
+    private async executeCommandEx(command: string, args: string[], options?: cp.SpawnOptions): Promise<string> {
+        options = options || { shell: true, env: await this.getEndpointEnv() };
+        return await this.executeWithSession(async (): Promise<string> => {
+            if (wsl.useWsl()) {
+                return await executeCommand("wsl", [command].concat(args), options);
+            }
+            return await executeCommand(command, args, options);
+        });
+    }
+
+    private async executeCommandWithProgressEx(message: string, command: string, args: string[], options?: cp.SpawnOptions): Promise<string> {
+        options = options || { shell: true, env: await this.getEndpointEnv() };
+        return await this.executeWithSession(async (): Promise<string> => {
+            if (wsl.useWsl()) {
+                return await executeCommandWithProgress(message, "wsl", [command].concat(args), options);
+            }
+            return await executeCommandWithProgress(message, command, args, options);
+        });
+    }
+
+    // All the CLI commands go through here, so that an expired session is detected and renewed in one place
+    private async executeWithSession(execute: () => Promise<string>): Promise<string> {
+        try {
+            return await execute();
+        } catch (error) {
+            if (!isSessionExpired(error) || !this.sessionExpiredHandler || !await this.sessionExpiredHandler()) {
+                throw error;
+            }
+            return await execute();
         }
-        return await executeCommand(command, args, options);
     }
 
-    private async executeCommandWithProgressEx(message: string, command: string, args: string[], options: cp.SpawnOptions = { shell: true }): Promise<string> {
-        if (wsl.useWsl()) {
-            return await executeCommandWithProgress(message, "wsl", [command].concat(args), options);
+    private getEndpointHome(endpoint: string): string | undefined {
+        if (endpoint !== Endpoint.LeetCodeCN || !this.cliHomeRootPath) {
+            return undefined;
+        }
+        return path.join(this.cliHomeRootPath, endpoint);
+    }
+
+    // The plugins are enabled only once in the home folder of the endpoint, which is recorded by a marker file
+    private async initializeEndpointHome(endpoint: string, options: cp.SpawnOptions): Promise<void> {
+        const home: string | undefined = this.getEndpointHome(endpoint);
+        if (!home) {
+            return;
+        }
+        const markerPath: string = path.join(home, pluginsMarkerFile);
+        const enabledPlugins: string = supportedPlugins.join(",");
+        if (await fse.pathExists(markerPath) && (await fse.readFile(markerPath, "utf8")).trim() === enabledPlugins) {
+            return;
+        }
+        await this.migrateLegacySession(home);
+        for (const plugin of supportedPlugins) {
+            await this.executeCommandEx(this.nodeExecutable, [await this.getLeetCodeBinaryPath(), "plugin", "-e", plugin], options);
+        }
+        await fse.writeFile(markerPath, enabledPlugins);
+    }
+
+    // The earlier versions kept the leetcode-cn login in the default home folder, copy it so that the user stays signed in
+    private async migrateLegacySession(home: string): Promise<void> {
+        if (useWsl()) {
+            // The default home folder is in WSL, the user has to sign in again
+            return;
+        }
+        const legacyPath: string = path.join(os.homedir(), ".lc", "leetcode.cn");
+        const targetPath: string = path.join(home, ".lc", "leetcode.cn");
+        try {
+            if (await fse.pathExists(legacyPath) && !await fse.pathExists(targetPath)) {
+                await fse.copy(legacyPath, targetPath);
+            }
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to migrate the leetcode-cn login: ${error}`);
         }
-        return await executeCommandWithProgress(message, command, args, options);
     }
 
     private async removeOldCache(): Promise<void> {
@@ -213,4 +303,25 @@ class LeetCodeExecutor implements Disposable {
 
 }
 
+// Quote the test input for the shell, the line breaks are passed as "\n" which is unescaped by the CLI
+function parseTestString(input: string): string {
+    const test: string = input.replace(/\r?\n/g, "\\n");
+    if (useWsl() || !isWindows()) {
+        return `'${test}'`;
+    }
+
+    // In windows and not using WSL
+    if (usingCmd()) {
+        return `"${test.replace(/"/g, '\\"')}"`;
+    } else {
+        // Assume using PowerShell
+        return `'${test.replace(/"/g, '\\"')}'`;
+    }
+}
+
+// The errors printed by the CLI when the user is not signed in or the cookie is expired
+function isSessionExpired(error: { result?: string }): boolean {
+    return !!error.result && /session expired|not login|please login/i.test(error.result);
+}
+
 export const leetCodeExecutor: LeetCodeExecutor = new LeetCodeExecutor();
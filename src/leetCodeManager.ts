@@ -1,21 +1,18 @@
 // Copyright (c) jdneo. All rights reserved.
 // Licensed under the MIT license.
 
-import * as cp from "child_process";
 import { EventEmitter } from "events";
 import * as vscode from "vscode";
+import { credentialStore } from "./credentials/credentialStore";
 import { leetCodeChannel } from "./leetCodeChannel";
-import { leetCodeExecutor } from "./leetCodeExecutor";
-import { IQuickItemEx, loginArgsMapping, UserStatus } from "./shared";
-import { createEnvOption } from "./utils/cpUtils";
+import { getProblemProvider } from "./providers/problemProvider";
+import { ICredential, IQuickItemEx, UserStatus } from "./shared";
 import { DialogType, promptForOpenOutputChannel } from "./utils/uiUtils";
-import * as wsl from "./utils/wslUtils";
 
 class LeetCodeManager extends EventEmitter {
     private currentUser: string | undefined;
     private userStatus: UserStatus;
-    private readonly successRegex: RegExp = /(?:.*)Successfully .*login as (.*)/i;
-    private readonly failRegex: RegExp = /.*\[ERROR\].*/i;
+    private reauthentication: Promise<boolean> | undefined;
 
     constructor() {
         super();
@@ -25,8 +22,8 @@ class LeetCodeManager extends EventEmitter {
 
     public async getLoginStatus(): Promise<void> {
         try {
-            const result: string = await leetCodeExecutor.getUserInfo();
-            this.currentUser = this.tryParseUserName(result);
+            await credentialStore.restore();
+            this.currentUser = await getProblemProvider().getUserName();
             this.userStatus = UserStatus.SignedIn;
         } catch (error) {
             this.currentUser = undefined;
@@ -65,75 +62,19 @@ class LeetCodeManager extends EventEmitter {
             return;
         }
         const loginMethod: string = choice.value;
-        const commandArg: string | undefined = loginArgsMapping.get(loginMethod);
-        if (!commandArg) {
-            throw new Error(`The login method "${loginMethod}" is not supported.`);
-        }
         const isByCookie: boolean = loginMethod === "Cookie";
         const inMessage: string = isByCookie ? "sign in by cookie" : "sign in";
         try {
-            const userName: string | undefined = await new Promise(async (resolve: (res: string | undefined) => void, reject: (e: Error) => void): Promise<void> => {
-
-                const leetCodeBinaryPath: string = await leetCodeExecutor.getLeetCodeBinaryPath();
-
-                const childProc: cp.ChildProcess = wsl.useWsl()
-                    ? cp.spawn("wsl", [leetCodeExecutor.node, leetCodeBinaryPath, "user", commandArg], { shell: true })
-                    : cp.spawn(leetCodeExecutor.node, [leetCodeBinaryPath, "user", commandArg], {
-                        shell: true,
-                        env: createEnvOption(),
-                    });
-
-                childProc.stdout.on("data", async (data: string | Buffer) => {
-                    data = data.toString();
-                    leetCodeChannel.append(data);
-                    if (data.includes("twoFactorCode")) {
-                        const twoFactor: string | undefined = await vscode.window.showInputBox({
-                            prompt: "Enter two-factor code.",
-                            ignoreFocusOut: true,
-                            validateInput: (s: string): string | undefined => s && s.trim() ? undefined : "The input must not be empty",
-                        });
-                        if (!twoFactor) {
-                            childProc.kill();
-                            return resolve(undefined);
-                        }
-                        childProc.stdin.write(`${twoFactor}\n`);
-                    }
-                    const successMatch: RegExpMatchArray | null = data.match(this.successRegex);
-                    if (successMatch && successMatch[1]) {
-                        childProc.stdin.end();
-                        return resolve(successMatch[1]);
-                    } else if (data.match(this.failRegex)) {
-                        childProc.stdin.end();
-                        return reject(new Error("Faile to login"));
-                    }
-                });
-
-                childProc.stderr.on("data", (data: string | Buffer) => leetCodeChannel.append(data.toString()));
-
-                childProc.on("error", reject);
-                const name: string | undefined = await vscode.window.showInputBox({
-                    prompt: "Enter username or E-mail.",
-                    ignoreFocusOut: true,
-                    validateInput: (s: string): string | undefined => s && s.trim() ? undefined : "The input must not be empty",
-                });
-                if (!name) {
-                    childProc.kill();
-                    return resolve(undefined);
-                }
-                childProc.stdin.write(`${name}\n`);
-                const pwd: string | undefined = await vscode.window.showInputBox({
-                    prompt: isByCookie ? "Enter cookie" : "Enter password.",
-                    password: true,
-                    ignoreFocusOut: true,
-                    validateInput: (s: string): string | undefined => s ? undefined : isByCookie ? "Cookie must not be empty" : "Password must not be empty",
-                });
-                if (!pwd) {
-                    childProc.kill();
-                    return resolve(undefined);
-                }
-                childProc.stdin.write(`${pwd}\n`);
-            });
+            // The cookie is kept in the SecretStorage to authenticate the requests of the LeetCode client
+            const credential: ICredential | undefined = isByCookie ? await promptForCookie() : undefined;
+            if (isByCookie && !credential) {
+                return;
+            }
+            const userName: string | undefined = await getProblemProvider().signIn(loginMethod, credential);
             if (userName) {
+                if (credential) {
+                    await credentialStore.store(credential);
+                }
                 vscode.window.showInformationMessage(`Successfully ${inMessage}.`);
                 this.currentUser = userName;
                 this.userStatus = UserStatus.SignedIn;
@@ -147,7 +88,8 @@ class LeetCodeManager extends EventEmitter {
 
     public async signOut(): Promise<void> {
         try {
-            await leetCodeExecutor.signOut();
+            await getProblemProvider().signOut();
+            await credentialStore.delete();
             vscode.window.showInformationMessage("Successfully signed out.");
             this.currentUser = undefined;
             this.userStatus = UserStatus.SignedOut;
@@ -157,6 +99,15 @@ class LeetCodeManager extends EventEmitter {
         }
     }
 
+    // Called when a command fails for the expired session, the concurrent calls share the same attempt
+    public async reauthenticate(): Promise<boolean> {
+        if (!this.reauthentication) {
+            this.reauthentication = this.reauthenticateInternal();
+            this.reauthentication.then(() => this.reauthentication = undefined, () => this.reauthentication = undefined);
+        }
+        return this.reauthentication;
+    }
+
     public getStatus(): UserStatus {
         return this.userStatus;
     }
@@ -165,15 +116,57 @@ class LeetCodeManager extends EventEmitter {
         return this.currentUser;
     }
 
-    private tryParseUserName(output: string): string {
-        const reg: RegExp = /^\s*.\s*(.+?)\s*https:\/\/leetcode/m;
-        const match: RegExpMatchArray | null = output.match(reg);
-        if (match && match.length === 2) {
-            return match[1].trim();
+    // Sign in again with the stored cookie silently, the user is prompted only if it's rejected as well
+    private async reauthenticateInternal(): Promise<boolean> {
+        const credential: ICredential | undefined = await credentialStore.get();
+        if (credential) {
+            try {
+                const userName: string | undefined = await getProblemProvider().signIn("Cookie", credential);
+                if (userName) {
+                    await credentialStore.store(credential);
+                    leetCodeChannel.appendLine("The session has expired, signed in again with the stored cookie.");
+                    this.currentUser = userName;
+                    this.userStatus = UserStatus.SignedIn;
+                    return true;
+                }
+            } catch (error) {
+                leetCodeChannel.appendLine(`Failed to sign in with the stored cookie: ${error}`);
+            }
+            await credentialStore.delete();
+        }
+        // Nothing to renew if the user has never signed in
+        if (!credential && !this.currentUser) {
+            return false;
         }
+        leetCodeChannel.appendLine("The session has expired.");
+        this.currentUser = undefined;
+        this.userStatus = UserStatus.SignedOut;
+        this.emit("statusChanged");
+        vscode.window.showWarningMessage("The LeetCode session has expired, please sign in again.", "Sign In").then((choice: string | undefined) => {
+            if (choice) {
+                vscode.commands.executeCommand("leetcode.signin");
+            }
+        });
+        return false;
+    }
+}
 
-        return "Unknown";
+async function promptForCookie(): Promise<ICredential | undefined> {
+    const name: string | undefined = await vscode.window.showInputBox({
+        prompt: "Enter username or E-mail.",
+        ignoreFocusOut: true,
+        validateInput: (s: string): string | undefined => s && s.trim() ? undefined : "The input must not be empty",
+    });
+    if (!name) {
+        return undefined;
     }
+    const cookie: string | undefined = await vscode.window.showInputBox({
+        prompt: "Enter cookie",
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (s: string): string | undefined => s ? undefined : "Cookie must not be empty",
+    });
+    return cookie ? { name, secret: cookie } : undefined;
 }
 
 export const leetCodeManager: LeetCodeManager = new LeetCodeManager();
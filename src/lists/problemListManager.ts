@@ -0,0 +1,177 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as vscode from "vscode";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { IProblemList } from "../shared";
+import { getProblemListsFile } from "../utils/settingUtils";
+
+class ProblemListManager implements vscode.Disposable {
+    private globalStoragePath: string;
+    private lists: IProblemList[] = [];
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private configurationChangeListener: vscode.Disposable;
+    private onDidChangeListsEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+
+    public get onDidChangeLists(): vscode.Event<void> {
+        return this.onDidChangeListsEmitter.event;
+    }
+
+    public async initialize(context: vscode.ExtensionContext): Promise<void> {
+        this.globalStoragePath = context.globalStoragePath;
+        this.configurationChangeListener = vscode.workspace.onDidChangeConfiguration(async (event: vscode.ConfigurationChangeEvent) => {
+            if (event.affectsConfiguration("leetcode.problemListsFile")) {
+                await this.load();
+            }
+        });
+        await this.load();
+    }
+
+    public getLists(): IProblemList[] {
+        return this.lists;
+    }
+
+    public getList(name: string): IProblemList | undefined {
+        return this.lists.find((list: IProblemList) => list.name === name);
+    }
+
+    public getListsOfProblem(problemId: string): IProblemList[] {
+        return this.lists.filter((list: IProblemList) => list.problems.indexOf(problemId) >= 0);
+    }
+
+    public async createList(name: string, problems: string[] = []): Promise<void> {
+        if (this.getList(name)) {
+            throw new Error(`The list "${name}" already exists.`);
+        }
+        this.lists.push({ name, problems });
+        await this.save();
+    }
+
+    public async renameList(name: string, newName: string): Promise<void> {
+        if (this.getList(newName)) {
+            throw new Error(`The list "${newName}" already exists.`);
+        }
+        this.getExistingList(name).name = newName;
+        await this.save();
+    }
+
+    public async deleteList(name: string): Promise<void> {
+        this.lists = this.lists.filter((list: IProblemList) => list.name !== name);
+        await this.save();
+    }
+
+    public async addProblem(name: string, problemId: string): Promise<void> {
+        const list: IProblemList = this.getExistingList(name);
+        if (list.problems.indexOf(problemId) < 0) {
+            list.problems.push(problemId);
+            await this.save();
+        }
+    }
+
+    public async removeProblem(name: string, problemId: string): Promise<void> {
+        const list: IProblemList = this.getExistingList(name);
+        list.problems = list.problems.filter((id: string) => id !== problemId);
+        await this.save();
+    }
+
+    // Merge the imported lists into the existing ones which have the same names, returns the names of the imported lists
+    public async importLists(filePath: string): Promise<string[]> {
+        const content: IProblemList | IProblemList[] = await fse.readJson(filePath);
+        const lists: IProblemList[] = Array.isArray(content) ? content : [content];
+        if (!lists.every(isProblemList)) {
+            throw new Error(`${filePath} is not a valid problem list file.`);
+        }
+        for (const imported of lists.map(normalize)) {
+            const list: IProblemList | undefined = this.getList(imported.name);
+            if (!list) {
+                this.lists.push(imported);
+                continue;
+            }
+            for (const problemId of imported.problems) {
+                if (list.problems.indexOf(problemId) < 0) {
+                    list.problems.push(problemId);
+                }
+            }
+        }
+        await this.save();
+        return lists.map((list: IProblemList) => list.name);
+    }
+
+    public async exportList(name: string, filePath: string): Promise<void> {
+        await fse.outputJson(filePath, this.getExistingList(name), { spaces: 4 });
+    }
+
+    public dispose(): void {
+        this.disposeWatcher();
+        if (this.configurationChangeListener) {
+            this.configurationChangeListener.dispose();
+        }
+        this.onDidChangeListsEmitter.dispose();
+    }
+
+    private async load(): Promise<void> {
+        const filePath: string = this.getFilePath();
+        this.watch(filePath);
+        try {
+            const lists: IProblemList[] = await fse.pathExists(filePath) ? await fse.readJson(filePath) : [];
+            this.lists = Array.isArray(lists) ? lists.filter(isProblemList).map(normalize) : [];
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to read the problem lists from ${filePath}: ${error}`);
+            this.lists = [];
+        }
+        this.onDidChangeListsEmitter.fire();
+    }
+
+    private async save(): Promise<void> {
+        await fse.outputJson(this.getFilePath(), this.lists, { spaces: 4 });
+        this.onDidChangeListsEmitter.fire();
+    }
+
+    // The lists file could be shared in the workspace and updated by others, e.g. via git pull
+    private watch(filePath: string): void {
+        this.disposeWatcher();
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(path.dirname(filePath), path.basename(filePath)));
+        this.watcher.onDidChange(() => this.load());
+        this.watcher.onDidCreate(() => this.load());
+        this.watcher.onDidDelete(() => this.load());
+    }
+
+    private disposeWatcher(): void {
+        if (this.watcher) {
+            this.watcher.dispose();
+            this.watcher = undefined;
+        }
+    }
+
+    private getExistingList(name: string): IProblemList {
+        const list: IProblemList | undefined = this.getList(name);
+        if (!list) {
+            throw new Error(`The list "${name}" does not exist.`);
+        }
+        return list;
+    }
+
+    private getFilePath(): string {
+        const filePath: string = getProblemListsFile();
+        if (!filePath) {
+            return path.join(this.globalStoragePath, "lists.json");
+        }
+        if (path.isAbsolute(filePath) || !vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+            return filePath;
+        }
+        return path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, filePath);
+    }
+}
+
+function isProblemList(list: any): list is IProblemList {
+    return !!list && typeof list.name === "string" && Array.isArray(list.problems);
+}
+
+// The problem ids could be written as numbers by hand
+function normalize(list: IProblemList): IProblemList {
+    return { name: list.name, problems: list.problems.map(String) };
+}
+
+export const problemListManager: ProblemListManager = new ProblemListManager();
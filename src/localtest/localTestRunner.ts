@@ -0,0 +1,456 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as cp from "child_process";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { leetCodeExecutor } from "../leetCodeExecutor";
+import { ISubmissionResult, SubmissionStatus } from "../shared";
+import { getWorkspaceConfiguration } from "../utils/settingUtils";
+import { getTestCaseFilePath, ITestCase, readTestCases } from "../utils/testCaseUtils";
+import * as wsl from "../utils/wslUtils";
+
+export const localTestLanguages: string[] = ["javascript", "typescript", "python3"];
+
+// Prefix of the lines printed by the harness to report the result of each test case
+const outputMarker: string = "__LEETCODE_LOCAL_TEST__";
+
+export interface IFunctionSignature {
+    name: string;
+    params: string[];
+}
+
+export function getCodeRegion(content: string): string {
+    const match: RegExpMatchArray | null = content.match(/@lc code=start.*\r?\n([^]*?)\r?\n.*@lc code=end/);
+    return match ? match[1] : content;
+}
+
+export function parseFunctionSignature(code: string, language: string): IFunctionSignature | undefined {
+    let match: RegExpMatchArray | null = null;
+    switch (language) {
+        case "javascript":
+            match = code.match(/(?:var|let|const)\s+(\w+)\s*=\s*function\s*\(([^)]*)\)/)
+                || code.match(/function\s+(\w+)\s*\(([^)]*)\)/)
+                || code.match(/(?:var|let|const)\s+(\w+)\s*=\s*\(([^)]*)\)\s*=>/);
+            break;
+        case "typescript":
+            match = code.match(/function\s+(\w+)\s*\(([^)]*)\)/)
+                || code.match(/(?:let|const)\s+(\w+)\s*=\s*\(([^)]*)\)\s*(?::[^=]+)?=>/);
+            break;
+        case "python3":
+            match = code.match(/class\s+Solution\b[^:]*:[^]*?def\s+(\w+)\s*\(\s*self\s*,?([^)]*)\)/);
+            break;
+        default:
+            break;
+    }
+    if (!match) {
+        return undefined;
+    }
+    return {
+        name: match[1],
+        params: splitParameters(match[2]).map((param: string) => param.split(/[:=]/)[0].trim()),
+    };
+}
+
+export async function runLocalTest(filePath: string, language: string, testCases?: ITestCase[]): Promise<ISubmissionResult> {
+    const code: string = getCodeRegion(await fse.readFile(filePath, "utf8"));
+    const signature: IFunctionSignature | undefined = parseFunctionSignature(code, language);
+    if (!signature) {
+        throw new Error("Failed to find the function signature of the solution. Only the problems with a single entry function are supported.");
+    }
+    // The harness of Python builds the linked lists and the binary trees from the inputs, the others take the inputs as they are
+    if (language !== "python3" && /\b(ListNode|TreeNode)\b/.test(code)) {
+        throw new Error("The problems with ListNode or TreeNode arguments can only be run locally in Python.");
+    }
+    if (!testCases) {
+        testCases = await readTestCases(filePath, signature.params.length);
+    }
+    if (testCases.length === 0) {
+        throw new Error(`No test case is found in ${getTestCaseFilePath(filePath)}.`);
+    }
+
+    const workDir: string = await fse.mkdtemp(path.join(os.tmpdir(), "leetcode-local-"));
+    try {
+        const casesPath: string = path.join(workDir, "cases.json");
+        await fse.writeJson(casesPath, testCases.map((testCase: ITestCase) => testCase.input));
+
+        let scriptPath: string;
+        let command: string;
+        if (language === "python3") {
+            scriptPath = path.join(workDir, "solution.py");
+            await fse.writeFile(scriptPath, genPythonHarness(code, signature));
+            command = getWorkspaceConfiguration().get<string>("localTest.pythonPath", "python3");
+        } else {
+            let jsCode: string = code;
+            if (language === "typescript") {
+                const transpiled: ITranspileResult = await transpileTypeScript(code, filePath);
+                if (transpiled.errors.length > 0) {
+                    return createResult(SubmissionStatus.CompileError, testCases, [], { compileError: transpiled.errors.join("\n") });
+                }
+                jsCode = transpiled.code;
+            }
+            scriptPath = path.join(workDir, "solution.js");
+            await fse.writeFile(scriptPath, genJavaScriptHarness(jsCode, signature));
+            command = leetCodeExecutor.node.replace(/^"(.*)"$/, "$1");
+        }
+
+        const execution: IExecution = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: "Running the test cases locally..." },
+            (): Promise<IExecution> => execute(command, [scriptPath, casesPath]),
+        );
+        return parseExecution(execution, testCases);
+    } finally {
+        await fse.remove(workDir);
+    }
+}
+
+interface IExecution {
+    stdout: string;
+    stderr: string;
+    timedOut: boolean;
+}
+
+interface ICaseOutput {
+    output?: string;
+    error?: string;
+    time: number;
+    stdout: string;
+}
+
+type CaseVerdict = "Passed" | "Failed" | "Finished";
+
+interface ITranspileResult {
+    code: string;
+    errors: string[];
+}
+
+function splitParameters(params: string): string[] {
+    // Split on the top level commas only, the type annotations may contain commas, e.g. Map<string, number>
+    const result: string[] = [];
+    let depth: number = 0;
+    let current: string = "";
+    for (const char of params) {
+        if ("<([{".indexOf(char) >= 0) {
+            depth++;
+        } else if (">)]}".indexOf(char) >= 0) {
+            depth--;
+        } else if (char === "," && depth === 0) {
+            result.push(current);
+            current = "";
+            continue;
+        }
+        current += char;
+    }
+    result.push(current);
+    return result.filter((param: string) => param.trim() !== "");
+}
+
+// The TypeScript compiler is not shipped with the extension, the one installed for the solution is used
+async function transpileTypeScript(code: string, filePath: string): Promise<ITranspileResult> {
+    const compilerPath: string | undefined = await findTypeScriptCompiler(path.dirname(filePath));
+    if (!compilerPath) {
+        throw new Error("TypeScript is not found in the folders of the solution. Please install it, e.g. \"npm install typescript\", to run the TypeScript solutions locally.");
+    }
+    const ts: typeof import("typescript") = await import(compilerPath);
+    const output: { outputText: string, diagnostics?: Array<import("typescript").Diagnostic> } = ts.transpileModule(code, {
+        compilerOptions: { target: ts.ScriptTarget.ES2015, module: ts.ModuleKind.CommonJS },
+        reportDiagnostics: true,
+    });
+    return {
+        code: output.outputText,
+        errors: (output.diagnostics || []).map((diagnostic: import("typescript").Diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")),
+    };
+}
+
+// Look up the "typescript" package in the node_modules of the folder and its ancestors
+async function findTypeScriptCompiler(folder: string): Promise<string | undefined> {
+    const compilerPath: string = path.join(folder, "node_modules", "typescript");
+    if (await fse.pathExists(path.join(compilerPath, "package.json"))) {
+        return compilerPath;
+    }
+    const parent: string = path.dirname(folder);
+    return parent === folder ? undefined : await findTypeScriptCompiler(parent);
+}
+
+function genJavaScriptHarness(code: string, signature: IFunctionSignature): string {
+    return [
+        code,
+        "",
+        "const __cases = JSON.parse(require('fs').readFileSync(process.argv[2], 'utf8'));",
+        "for (const __case of __cases) {",
+        "    const __args = __case.map((arg) => JSON.parse(arg));",
+        "    const __start = process.hrtime();",
+        "    try {",
+        `        let __output = ${signature.name}(...__args);`,
+        "        if (__output === undefined && __args.length > 0) {",
+        "            __output = __args[0]; // The solution modifies the input in-place",
+        "        }",
+        "        const __time = process.hrtime(__start);",
+        `        console.log('${outputMarker}' + JSON.stringify({ output: JSON.stringify(__output), time: __time[0] * 1e3 + __time[1] / 1e6 }));`,
+        "    } catch (e) {",
+        `        console.log('${outputMarker}' + JSON.stringify({ error: String(e && e.stack || e), time: 0 }));`,
+        "        break;",
+        "    }",
+        "}",
+    ].join(os.EOL);
+}
+
+function genPythonHarness(code: string, signature: IFunctionSignature): string {
+    return [
+        "import collections",
+        "import inspect",
+        "import json",
+        "import sys",
+        "import time",
+        "import traceback",
+        "from typing import *",
+        "",
+        "",
+        "class ListNode:",
+        "    def __init__(self, val=0, next=None):",
+        "        self.val = val",
+        "        self.next = next",
+        "",
+        "",
+        "class TreeNode:",
+        "    def __init__(self, val=0, left=None, right=None):",
+        "        self.val = val",
+        "        self.left = left",
+        "        self.right = right",
+        "",
+        "",
+        code,
+        "",
+        "",
+        "def __to_list_node(values):",
+        "    head = tail = ListNode()",
+        "    for value in values:",
+        "        tail.next = ListNode(value)",
+        "        tail = tail.next",
+        "    return head.next",
+        "",
+        "",
+        "def __to_tree_node(values):",
+        "    # The tree is serialized in level order, e.g. [1,null,2,3]",
+        "    if not values or values[0] is None:",
+        "        return None",
+        "    root = TreeNode(values[0])",
+        "    queue = collections.deque([root])",
+        "    i = 1",
+        "    while queue and i < len(values):",
+        "        node = queue.popleft()",
+        "        if values[i] is not None:",
+        "            node.left = TreeNode(values[i])",
+        "            queue.append(node.left)",
+        "        i += 1",
+        "        if i < len(values) and values[i] is not None:",
+        "            node.right = TreeNode(values[i])",
+        "            queue.append(node.right)",
+        "        i += 1",
+        "    return root",
+        "",
+        "",
+        "def __to_arg(value, annotation):",
+        "    # e.g. Optional[ListNode] or List[Optional[TreeNode]]",
+        "    text = str(annotation)",
+        "    for name, build in ((\"ListNode\", __to_list_node), (\"TreeNode\", __to_tree_node)):",
+        "        if name in text:",
+        "            depth = text[:text.index(name)].count(\"List[\")",
+        "            return __build(value, build, depth)",
+        "    return value",
+        "",
+        "",
+        "def __build(value, build, depth):",
+        "    if depth == 0 or value is None:",
+        "        return build(value) if depth == 0 and value is not None else value",
+        "    return [__build(item, build, depth - 1) for item in value]",
+        "",
+        "",
+        "def __from_node(value):",
+        "    if isinstance(value, ListNode):",
+        "        values = []",
+        "        while value:",
+        "            values.append(value.val)",
+        "            value = value.next",
+        "        return values",
+        "    if isinstance(value, TreeNode):",
+        "        values = []",
+        "        queue = collections.deque([value])",
+        "        while queue:",
+        "            node = queue.popleft()",
+        "            values.append(node.val if node else None)",
+        "            if node:",
+        "                queue.extend([node.left, node.right])",
+        "        while values and values[-1] is None:",
+        "            values.pop()",
+        "        return values",
+        "    if isinstance(value, list):",
+        "        return [__from_node(item) for item in value]",
+        "    return value",
+        "",
+        "",
+        "def __run():",
+        "    with open(sys.argv[1]) as f:",
+        "        cases = json.load(f)",
+        `    method = inspect.signature(getattr(Solution, "${signature.name}"))`,
+        "    params = list(method.parameters.values())[1:]",
+        "    returns_node = \"ListNode\" in str(method.return_annotation) or \"TreeNode\" in str(method.return_annotation)",
+        "    for case in cases:",
+        "        args = [__to_arg(json.loads(arg), param.annotation) for arg, param in zip(case, params)]",
+        "        start = time.time()",
+        "        try:",
+        `            output = Solution().${signature.name}(*args)`,
+        "            if output is None and returns_node:",
+        "                output = []  # The empty list or tree",
+        "            elif output is None and args:",
+        "                output = args[0]  # The solution modifies the input in-place",
+        "            output = __from_node(output)",
+        "            elapsed = (time.time() - start) * 1000",
+        `            print("${outputMarker}" + json.dumps({"output": json.dumps(output, separators=(",", ":")), "time": elapsed}))`,
+        "        except Exception:",
+        `            print("${outputMarker}" + json.dumps({"error": traceback.format_exc(), "time": 0}))`,
+        "            break",
+        "        finally:",
+        "            sys.stdout.flush()",
+        "",
+        "",
+        "__run()",
+        "",
+    ].join(os.EOL);
+}
+
+async function execute(command: string, args: string[]): Promise<IExecution> {
+    const cwd: string = path.dirname(args[0]);
+    if (wsl.useWsl()) {
+        args = await Promise.all(args.map((arg: string) => wsl.toWslPath(arg)));
+        args.unshift(command);
+        command = "wsl";
+    }
+    const timeout: number = getWorkspaceConfiguration().get<number>("localTest.timeout", 5000);
+    return new Promise((resolve: (res: IExecution) => void, reject: (e: Error) => void): void => {
+        const execution: IExecution = { stdout: "", stderr: "", timedOut: false };
+        const childProc: cp.ChildProcess = cp.spawn(command, args, { cwd });
+        const timer: NodeJS.Timer = setTimeout(() => {
+            execution.timedOut = true;
+            childProc.kill();
+        }, timeout);
+        childProc.stdout.on("data", (data: string | Buffer) => execution.stdout += data.toString());
+        childProc.stderr.on("data", (data: string | Buffer) => execution.stderr += data.toString());
+        childProc.on("error", (error: Error) => {
+            clearTimeout(timer);
+            reject(error);
+        });
+        childProc.on("close", () => {
+            clearTimeout(timer);
+            resolve(execution);
+        });
+    });
+}
+
+function parseExecution(execution: IExecution, testCases: ITestCase[]): ISubmissionResult {
+    const outputs: ICaseOutput[] = [];
+    let stdout: string[] = [];
+    for (const line of execution.stdout.split(/\r?\n/)) {
+        if (line.startsWith(outputMarker)) {
+            outputs.push(Object.assign(JSON.parse(line.slice(outputMarker.length)), { stdout: stdout.join("\n") }));
+            stdout = [];
+        } else if (line) {
+            stdout.push(line);
+        }
+    }
+
+    if (outputs.length === 0 && !execution.timedOut) {
+        // The script failed before running any test case, e.g. a syntax error
+        const status: SubmissionStatus = /SyntaxError|IndentationError/.test(execution.stderr) ? SubmissionStatus.CompileError : SubmissionStatus.RuntimeError;
+        return createResult(status, testCases, outputs, {
+            compileError: status === SubmissionStatus.CompileError ? execution.stderr.trim() : undefined,
+            runtimeError: status === SubmissionStatus.RuntimeError ? execution.stderr.trim() : undefined,
+            stdout: stdout.join("\n"),
+        });
+    }
+
+    const lastOutput: ICaseOutput | undefined = outputs[outputs.length - 1];
+    if (lastOutput && lastOutput.error) {
+        return createResult(SubmissionStatus.RuntimeError, testCases, outputs, { runtimeError: lastOutput.error.trim() });
+    }
+    if (execution.timedOut) {
+        return createResult(SubmissionStatus.TimeLimitExceeded, testCases, outputs, {});
+    }
+    const verdicts: CaseVerdict[] = outputs.map((output: ICaseOutput, index: number) => getVerdict(output, testCases[index]));
+    if (verdicts.indexOf("Failed") >= 0) {
+        return createResult(SubmissionStatus.WrongAnswer, testCases, outputs, {});
+    }
+    // The run is never accepted if any case is not checked, it's reported as "Finished" like the test runs of the CLI
+    return createResult(verdicts.indexOf("Finished") >= 0 ? SubmissionStatus.Unknown : SubmissionStatus.Accepted, testCases, outputs, {});
+}
+
+// The case without the expected output is only run, which is neither passed nor failed
+function getVerdict(output: ICaseOutput, testCase: ITestCase): CaseVerdict {
+    if (output.error || output.output === undefined) {
+        return "Failed";
+    }
+    if (testCase.expected === undefined) {
+        return "Finished";
+    }
+    return normalizeOutput(output.output) === normalizeOutput(testCase.expected) ? "Passed" : "Failed";
+}
+
+function normalizeOutput(output: string): string {
+    try {
+        return JSON.stringify(JSON.parse(output));
+    } catch (error) {
+        return output.trim();
+    }
+}
+
+function createResult(status: SubmissionStatus, testCases: ITestCase[], outputs: ICaseOutput[], extra: Partial<ISubmissionResult>): ISubmissionResult {
+    const verdicts: CaseVerdict[] = outputs.map((output: ICaseOutput, index: number) => getVerdict(output, testCases[index]));
+    const passed: number = verdicts.filter((verdict: CaseVerdict) => verdict === "Passed").length;
+    const unchecked: number = verdicts.filter((verdict: CaseVerdict) => verdict === "Finished").length;
+    const time: number = outputs.reduce((sum: number, output: ICaseOutput) => sum + output.time, 0);
+    const messages: string[] = [
+        status === SubmissionStatus.Unknown ? "Finished" : status,
+        `${passed}/${testCases.length} cases passed locally (${time.toFixed(2)} ms)`,
+    ];
+    if (unchecked > 0) {
+        messages.push(`${unchecked} cases are not checked without the expected output`);
+    }
+    const result: ISubmissionResult = Object.assign({
+        status,
+        accepted: status === SubmissionStatus.Accepted,
+        messages,
+        passedCases: passed,
+        totalCases: testCases.length,
+        runtime: `${time.toFixed(2)} ms`,
+        details: {},
+    }, extra);
+
+    outputs.forEach((output: ICaseOutput, index: number) => {
+        const testCase: ITestCase = testCases[index];
+        const lines: string[] = [
+            `Input: ${testCase.input.join("\n")}`,
+            `Output: ${output.error ? "N/A" : output.output}`,
+            `Expected: ${testCase.expected === undefined ? "N/A" : testCase.expected}`,
+        ];
+        if (output.stdout) {
+            lines.push(`Stdout: ${output.stdout}`);
+        }
+        const verdict: CaseVerdict = verdicts[index];
+        result.details[`Case ${index + 1}: ${verdict}`] = [lines.join("\n")];
+        if (verdict === "Failed" && result.input === undefined) {
+            result.input = testCase.input.join("\n");
+            result.actualOutput = output.output;
+            result.expectedOutput = testCase.expected;
+            result.stdout = output.stdout;
+        }
+    });
+    if (result.runtimeError) {
+        result.details["Runtime Error"] = [result.runtimeError];
+    }
+    if (result.compileError) {
+        result.details["Compile Error"] = [result.compileError];
+    }
+    return result;
+}
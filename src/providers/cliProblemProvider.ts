@@ -0,0 +1,220 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as cp from "child_process";
+import * as unescapeJS from "unescape-js";
+import * as vscode from "vscode";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { leetCodeExecutor } from "../leetCodeExecutor";
+import { ICredential, IProblem, ISession, ISubmissionResult, loginArgsMapping, ProblemState } from "../shared";
+import { createEnvOption } from "../utils/cpUtils";
+import * as wsl from "../utils/wslUtils";
+import { IProblemProvider } from "./problemProvider";
+
+// The provider backed by vsc-leetcode-cli, which parses the text printed by the CLI
+class CliProblemProvider implements IProblemProvider {
+    private readonly successRegex: RegExp = /(?:.*)Successfully .*login as (.*)/i;
+    private readonly failRegex: RegExp = /.*\[ERROR\].*/i;
+
+    public async meetRequirements(context: vscode.ExtensionContext): Promise<boolean> {
+        return await leetCodeExecutor.meetRequirements(context);
+    }
+
+    public async getUserName(): Promise<string> {
+        const output: string = await leetCodeExecutor.getUserInfo();
+        const match: RegExpMatchArray | null = output.match(/^\s*.\s*(.+?)\s*https:\/\/leetcode/m);
+        if (match && match.length === 2) {
+            return match[1].trim();
+        }
+        return "Unknown";
+    }
+
+    public async signIn(loginMethod: string, credential?: ICredential): Promise<string | undefined> {
+        const commandArg: string | undefined = loginArgsMapping.get(loginMethod);
+        if (!commandArg) {
+            throw new Error(`The login method "${loginMethod}" is not supported.`);
+        }
+        const isByCookie: boolean = loginMethod === "Cookie";
+        return await new Promise(async (resolve: (res: string | undefined) => void, reject: (e: Error) => void): Promise<void> => {
+
+            const leetCodeBinaryPath: string = await leetCodeExecutor.getLeetCodeBinaryPath();
+            // Sign in the endpoint in its own home folder, the login of the other endpoint is kept
+            const endpointEnv: {} = await leetCodeExecutor.getEndpointEnv();
+
+            const childProc: cp.ChildProcess = wsl.useWsl()
+                ? cp.spawn("wsl", [leetCodeExecutor.node, leetCodeBinaryPath, "user", commandArg], { shell: true, env: createEnvOption(endpointEnv) })
+                : cp.spawn(leetCodeExecutor.node, [leetCodeBinaryPath, "user", commandArg], {
+                    shell: true,
+                    env: createEnvOption(endpointEnv),
+                });
+
+            childProc.stdout.on("data", async (data: string | Buffer) => {
+                data = data.toString();
+                leetCodeChannel.append(data);
+                if (data.includes("twoFactorCode")) {
+                    const twoFactor: string | undefined = await vscode.window.showInputBox({
+                        prompt: "Enter two-factor code.",
+                        ignoreFocusOut: true,
+                        validateInput: (s: string): string | undefined => s && s.trim() ? undefined : "The input must not be empty",
+                    });
+                    if (!twoFactor) {
+                        childProc.kill();
+                        return resolve(undefined);
+                    }
+                    childProc.stdin.write(`${twoFactor}\n`);
+                }
+                const successMatch: RegExpMatchArray | null = data.match(this.successRegex);
+                if (successMatch && successMatch[1]) {
+                    childProc.stdin.end();
+                    return resolve(successMatch[1]);
+                } else if (data.match(this.failRegex)) {
+                    childProc.stdin.end();
+                    return reject(new Error("Faile to login"));
+                }
+            });
+
+            childProc.stderr.on("data", (data: string | Buffer) => leetCodeChannel.append(data.toString()));
+
+            childProc.on("error", reject);
+            const name: string | undefined = credential ? credential.name : await vscode.window.showInputBox({
+                prompt: "Enter username or E-mail.",
+                ignoreFocusOut: true,
+                validateInput: (s: string): string | undefined => s && s.trim() ? undefined : "The input must not be empty",
+            });
+            if (!name) {
+                childProc.kill();
+                return resolve(undefined);
+            }
+            childProc.stdin.write(`${name}\n`);
+            const pwd: string | undefined = credential ? credential.secret : await vscode.window.showInputBox({
+                prompt: isByCookie ? "Enter cookie" : "Enter password.",
+                password: true,
+                ignoreFocusOut: true,
+                validateInput: (s: string): string | undefined => s ? undefined : isByCookie ? "Cookie must not be empty" : "Password must not be empty",
+            });
+            if (!pwd) {
+                childProc.kill();
+                return resolve(undefined);
+            }
+            childProc.stdin.write(`${pwd}\n`);
+        });
+    }
+
+    public async signOut(): Promise<void> {
+        await leetCodeExecutor.signOut();
+    }
+
+    public async listProblems(showLocked: boolean): Promise<IProblem[]> {
+        const result: string = await leetCodeExecutor.listProblems(showLocked);
+        const problems: IProblem[] = [];
+        const lines: string[] = result.split("\n");
+        const reg: RegExp = /^(.)\s(.{1,2})\s(.)\s\[\s*(\d*)\s*\]\s*(.*)\s*(Easy|Medium|Hard)\s*\((\s*\d+\.\d+ %)\)/;
+        const { companies, tags } = await leetCodeExecutor.getCompaniesAndTags();
+        for (const line of lines) {
+            const match: RegExpMatchArray | null = line.match(reg);
+            if (match && match.length === 8) {
+                const id: string = match[4].trim();
+                problems.push({
+                    id,
+                    isFavorite: match[1].trim().length > 0,
+                    locked: match[2].trim().length > 0,
+                    state: parseProblemState(match[3]),
+                    name: match[5].trim(),
+                    difficulty: match[6].trim(),
+                    passRate: match[7].trim(),
+                    companies: companies[id] || ["Unknown"],
+                    tags: tags[id] || ["Unknown"],
+                });
+            }
+        }
+        return problems.reverse();
+    }
+
+    public async getDescription(problemId: string): Promise<string> {
+        return await leetCodeExecutor.getDescription(problemId);
+    }
+
+    public async getCodeTemplate(problem: IProblem, language: string, showDescriptionInComment: boolean): Promise<string> {
+        return await leetCodeExecutor.getCodeTemplate(problem, language, showDescriptionInComment);
+    }
+
+    public async getSolution(input: string, language: string): Promise<string> {
+        return unescapeJS(await leetCodeExecutor.showSolution(input, language));
+    }
+
+    public async toggleFavorite(problem: IProblem, addToFavorite: boolean): Promise<void> {
+        await leetCodeExecutor.toggleFavorite(problem, addToFavorite);
+    }
+
+    public async testSolution(filePath: string, input?: string): Promise<ISubmissionResult> {
+        return await leetCodeExecutor.testSolution(filePath, input);
+    }
+
+    public async submitSolution(filePath: string): Promise<ISubmissionResult> {
+        return await leetCodeExecutor.submitSolution(filePath);
+    }
+
+    public async listSessions(): Promise<ISession[]> {
+        const result: string = await leetCodeExecutor.listSessions();
+        const lines: string[] = result.split("\n");
+        const sessions: ISession[] = [];
+        const reg: RegExp = /(.?)\s*(\d+)\s+(.*)\s+(\d+ \(\s*\d+\.\d+ %\))\s+(\d+ \(\s*\d+\.\d+ %\))/;
+        for (const line of lines) {
+            const match: RegExpMatchArray | null = line.match(reg);
+            if (match && match.length === 6) {
+                sessions.push({
+                    active: !!(match[1].trim()),
+                    id: match[2].trim(),
+                    name: match[3].trim(),
+                    acQuestions: match[4].trim(),
+                    acSubmits: match[5].trim(),
+                });
+            }
+        }
+        return sessions;
+    }
+
+    public async enableSession(id: string): Promise<void> {
+        await leetCodeExecutor.enableSession(id);
+    }
+
+    public async createSession(name: string): Promise<void> {
+        await leetCodeExecutor.createSession(name);
+    }
+
+    public async deleteSession(id: string): Promise<void> {
+        await leetCodeExecutor.deleteSession(id);
+    }
+
+    public async switchEndpoint(endpoint: string): Promise<void> {
+        await leetCodeExecutor.switchEndpoint(endpoint);
+    }
+
+    public async deleteCache(): Promise<void> {
+        await leetCodeExecutor.deleteCache();
+    }
+
+    public dispose(): void {
+        leetCodeExecutor.dispose();
+    }
+}
+
+function parseProblemState(stateOutput: string): ProblemState {
+    if (!stateOutput) {
+        return ProblemState.Unknown;
+    }
+    switch (stateOutput.trim()) {
+        case "v":
+        case "✔":
+        case "√":
+            return ProblemState.AC;
+        case "X":
+        case "✘":
+        case "×":
+            return ProblemState.NotAC;
+        default:
+            return ProblemState.Unknown;
+    }
+}
+
+export const cliProblemProvider: CliProblemProvider = new CliProblemProvider();
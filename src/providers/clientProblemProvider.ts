@@ -0,0 +1,116 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as vscode from "vscode";
+import { leetCodeClient } from "../client/leetCodeClient";
+import { getCodeRegion } from "../localtest/localTestRunner";
+import { ICredential, IProblem, ISession, ISubmissionResult } from "../shared";
+import { getLanguageFromFile, getNodeIdFromFile } from "../utils/problemUtils";
+import { cliProblemProvider } from "./cliProblemProvider";
+import { IProblemProvider } from "./problemProvider";
+
+interface IClientSolution {
+    problemId: string;
+    language: string;
+    code: string;
+}
+
+// The provider which judges the solutions by the in-process client, it's used when signed in with the cookie.
+// The client has no counterpart of the other features, e.g. the sessions and the company tags, which are left to the CLI
+class ClientProblemProvider implements IProblemProvider {
+    public async meetRequirements(context: vscode.ExtensionContext): Promise<boolean> {
+        return await cliProblemProvider.meetRequirements(context);
+    }
+
+    public async getUserName(): Promise<string> {
+        return await cliProblemProvider.getUserName();
+    }
+
+    public async signIn(loginMethod: string, credential?: ICredential): Promise<string | undefined> {
+        return await cliProblemProvider.signIn(loginMethod, credential);
+    }
+
+    public async signOut(): Promise<void> {
+        await cliProblemProvider.signOut();
+    }
+
+    public async listProblems(showLocked: boolean): Promise<IProblem[]> {
+        return await cliProblemProvider.listProblems(showLocked);
+    }
+
+    public async getDescription(problemId: string): Promise<string> {
+        return await cliProblemProvider.getDescription(problemId);
+    }
+
+    public async getCodeTemplate(problem: IProblem, language: string, showDescriptionInComment: boolean): Promise<string> {
+        return await cliProblemProvider.getCodeTemplate(problem, language, showDescriptionInComment);
+    }
+
+    public async getSolution(input: string, language: string): Promise<string> {
+        return await cliProblemProvider.getSolution(input, language);
+    }
+
+    public async toggleFavorite(problem: IProblem, addToFavorite: boolean): Promise<void> {
+        await cliProblemProvider.toggleFavorite(problem, addToFavorite);
+    }
+
+    public async testSolution(filePath: string, input?: string): Promise<ISubmissionResult> {
+        const solution: IClientSolution = await readSolution(filePath);
+        return await judgeWithProgress(leetCodeClient.testSolution(solution.problemId, solution.language, solution.code, input));
+    }
+
+    public async submitSolution(filePath: string): Promise<ISubmissionResult> {
+        const solution: IClientSolution = await readSolution(filePath);
+        return await judgeWithProgress(leetCodeClient.submitSolution(solution.problemId, solution.language, solution.code));
+    }
+
+    public async listSessions(): Promise<ISession[]> {
+        return await cliProblemProvider.listSessions();
+    }
+
+    public async enableSession(id: string): Promise<void> {
+        await cliProblemProvider.enableSession(id);
+    }
+
+    public async createSession(name: string): Promise<void> {
+        await cliProblemProvider.createSession(name);
+    }
+
+    public async deleteSession(id: string): Promise<void> {
+        await cliProblemProvider.deleteSession(id);
+    }
+
+    public async switchEndpoint(endpoint: string): Promise<void> {
+        await cliProblemProvider.switchEndpoint(endpoint);
+    }
+
+    public async deleteCache(): Promise<void> {
+        await cliProblemProvider.deleteCache();
+    }
+
+    public dispose(): void {
+        cliProblemProvider.dispose();
+    }
+}
+
+async function readSolution(filePath: string): Promise<IClientSolution> {
+    const language: string | undefined = await getLanguageFromFile(filePath);
+    if (!language) {
+        throw new Error(`Failed to resolve the language of ${filePath}.`);
+    }
+    return {
+        problemId: await getNodeIdFromFile(filePath),
+        language,
+        code: getCodeRegion(await fse.readFile(filePath, "utf8")),
+    };
+}
+
+async function judgeWithProgress(judging: Promise<ISubmissionResult>): Promise<ISubmissionResult> {
+    return await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: "Submitting to LeetCode..." },
+        () => judging,
+    );
+}
+
+export const clientProblemProvider: ClientProblemProvider = new ClientProblemProvider();
@@ -0,0 +1,50 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import { Disposable, ExtensionContext } from "vscode";
+import { ICredential, IProblem, ISession, ISubmissionResult } from "../shared";
+import { cliProblemProvider } from "./cliProblemProvider";
+
+/**
+ * The source of the problems and the judge of the solutions. The commands and the explorer only talk
+ * to the provider, so that the CLI could be replaced by other implementations, e.g. a direct HTTP client.
+ */
+export interface IProblemProvider extends Disposable {
+    // Check the environment before the provider is used, returns false if it's not usable
+    meetRequirements(context: ExtensionContext): Promise<boolean>;
+
+    // Returns the name of the signed in user, throws if not signed in
+    getUserName(): Promise<string>;
+    // Returns the user name, or undefined if it's canceled by the user. The user is not prompted if the credential is given
+    signIn(loginMethod: string, credential?: ICredential): Promise<string | undefined>;
+    signOut(): Promise<void>;
+
+    listProblems(showLocked: boolean): Promise<IProblem[]>;
+    getDescription(problemId: string): Promise<string>;
+    getCodeTemplate(problem: IProblem, language: string, showDescriptionInComment: boolean): Promise<string>;
+    // The input could be the problem id or the path of the solution file
+    getSolution(input: string, language: string): Promise<string>;
+    toggleFavorite(problem: IProblem, addToFavorite: boolean): Promise<void>;
+
+    // The input has one argument per line, the default test cases are used if it's not given
+    testSolution(filePath: string, input?: string): Promise<ISubmissionResult>;
+    submitSolution(filePath: string): Promise<ISubmissionResult>;
+
+    listSessions(): Promise<ISession[]>;
+    enableSession(id: string): Promise<void>;
+    createSession(name: string): Promise<void>;
+    deleteSession(id: string): Promise<void>;
+
+    switchEndpoint(endpoint: string): Promise<void>;
+    deleteCache(): Promise<void>;
+}
+
+let currentProvider: IProblemProvider = cliProblemProvider;
+
+export function getProblemProvider(): IProblemProvider {
+    return currentProvider;
+}
+
+export function setProblemProvider(provider: IProblemProvider): void {
+    currentProvider = provider;
+}
@@ -0,0 +1,125 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { IQuickItemEx } from "../shared";
+
+const reviewStateKey: string = "leetcode.reviewQueue";
+const dayInMs: number = 24 * 60 * 60 * 1000;
+
+export enum RecallRating {
+    Again = 1,
+    Hard = 3,
+    Good = 4,
+    Easy = 5,
+}
+
+export interface IReviewItem {
+    problemId: string;
+    repetitions: number;
+    interval: number; // in days
+    easeFactor: number;
+    due: number;
+    lastReviewed: number;
+}
+
+class ReviewManager implements vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private onDidChangeReviewEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+
+    public get onDidChangeReview(): vscode.Event<void> {
+        return this.onDidChangeReviewEmitter.event;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+    }
+
+    public getItems(): IReviewItem[] {
+        const items: { [problemId: string]: IReviewItem } = this.context.globalState.get(reviewStateKey, {});
+        return Object.keys(items).map((problemId: string) => items[problemId]);
+    }
+
+    public getItem(problemId: string): IReviewItem | undefined {
+        return this.getItems().find((item: IReviewItem) => item.problemId === problemId);
+    }
+
+    // The problems due for review, the most overdue one comes first
+    public getDueItems(now: number = Date.now()): IReviewItem[] {
+        return this.getItems()
+            .filter((item: IReviewItem) => item.due <= now)
+            .sort((a: IReviewItem, b: IReviewItem) => a.due - b.due);
+    }
+
+    public getNextItem(): IReviewItem | undefined {
+        return this.getItems().sort((a: IReviewItem, b: IReviewItem) => a.due - b.due)[0];
+    }
+
+    public async rate(problemId: string, rating: RecallRating): Promise<IReviewItem> {
+        const items: { [problemId: string]: IReviewItem } = this.context.globalState.get(reviewStateKey, {});
+        const item: IReviewItem = schedule(items[problemId] || {
+            problemId,
+            repetitions: 0,
+            interval: 0,
+            easeFactor: 2.5,
+            due: 0,
+            lastReviewed: 0,
+        }, rating);
+        items[problemId] = item;
+        await this.context.globalState.update(reviewStateKey, items);
+        this.onDidChangeReviewEmitter.fire();
+        return item;
+    }
+
+    public async promptForRating(problemId: string): Promise<void> {
+        const picks: Array<IQuickItemEx<RecallRating>> = [
+            { label: "Again", detail: "I could not solve it without help", value: RecallRating.Again },
+            { label: "Hard", detail: "I solved it with serious effort", value: RecallRating.Hard },
+            { label: "Good", detail: "I solved it after some hesitation", value: RecallRating.Good },
+            { label: "Easy", detail: "I solved it right away", value: RecallRating.Easy },
+        ];
+        const choice: IQuickItemEx<RecallRating> | undefined = await vscode.window.showQuickPick(picks, {
+            placeHolder: `Accepted! How hard was it to recall the solution of problem ${problemId}?`,
+            ignoreFocusOut: true,
+        });
+        if (!choice) {
+            return;
+        }
+        const item: IReviewItem = await this.rate(problemId, choice.value);
+        vscode.window.showInformationMessage(`Problem ${problemId} will be due for review on ${new Date(item.due).toLocaleDateString()}.`);
+    }
+
+    public dispose(): void {
+        this.onDidChangeReviewEmitter.dispose();
+    }
+}
+
+// The SM-2 algorithm, see https://www.supermemo.com/en/archives1990-2015/english/ol/sm2
+function schedule(item: IReviewItem, rating: RecallRating): IReviewItem {
+    let { repetitions, interval } = item;
+    if (rating < RecallRating.Hard) {
+        repetitions = 0;
+        interval = 1;
+    } else {
+        if (repetitions === 0) {
+            interval = 1;
+        } else if (repetitions === 1) {
+            interval = 6;
+        } else {
+            interval = Math.round(interval * item.easeFactor);
+        }
+        repetitions++;
+    }
+    const easeFactor: number = Math.max(1.3, item.easeFactor + (0.1 - (5 - rating) * (0.08 + (5 - rating) * 0.02)));
+    const now: number = Date.now();
+    return {
+        problemId: item.problemId,
+        repetitions,
+        interval,
+        easeFactor,
+        due: now + interval * dayInMs,
+        lastReviewed: now,
+    };
+}
+
+export const reviewManager: ReviewManager = new ReviewManager();
@@ -59,6 +59,20 @@ export const langExt: Map<string, string> = new Map([
     ["typescript", "ts"],
 ]);
 
+// The credential to sign in without prompting, e.g. the name and the cookie in the SecretStorage
+export interface ICredential {
+    name: string;
+    secret: string;
+}
+
+export interface ISession {
+    active: boolean;
+    id: string;
+    name: string;
+    acQuestions: string;
+    acSubmits: string;
+}
+
 export enum ProblemState {
     AC = 1,
     NotAC = 2,
@@ -82,6 +96,59 @@ export interface IProblem {
     tags: string[];
 }
 
+// The problem description parsed from the output of the "show" command
+export interface IDescription {
+    title: string;
+    url: string;
+    tags: string[];
+    companies: string[];
+    category: string;
+    difficulty: string;
+    likes: string;
+    dislikes: string;
+    body: string;
+    // One item for each "Example N:" heading, which is undefined if the example can't be parsed
+    examples: Array<IDescriptionExample | undefined>;
+}
+
+// An item of the similar questions of a problem on LeetCode
+export interface ISimilarProblem {
+    title: string;
+    titleSlug: string;
+    difficulty: string;
+}
+
+// A solution post in the discussions of the problem
+export interface ISolution {
+    title: string;
+    url: string;
+    lang: string;
+    author: string;
+    votes: string;
+    // The date when the solution is posted, e.g. "2020-01-01"
+    date?: string;
+    body: string; // Markdown supported
+}
+
+export enum SolutionOrder {
+    Votes = "most_votes",
+    Recent = "newest_to_oldest",
+}
+
+export interface ISolutionQuery {
+    problemName: string;
+    titleSlug: string;
+    language: string;
+    order: SolutionOrder;
+}
+
+export interface IDescriptionExample {
+    // The input in the format of the test cases, one argument per line
+    input: string;
+    output: string;
+    explanation?: string;
+}
+
 export const defaultProblem: IProblem = {
     isFavorite: false,
     locked: false,
@@ -100,6 +167,12 @@ export enum Category {
     Tag = "Tag",
     Company = "Company",
     Favorite = "Favorite",
+    Review = "Review",
+    Lists = "Lists",
+    Local = "Local",
+    Daily = "Daily",
+    Similar = "Similar",
+    Endpoint = "Endpoint",
 }
 
 export const supportedPlugins: string[] = [
@@ -116,3 +189,131 @@ export enum DescriptionConfiguration {
 }
 
 export const leetcodeHasInited: string = "leetcode.hasInited";
+
+export enum SubmissionStatus {
+    Accepted = "Accepted",
+    WrongAnswer = "Wrong Answer",
+    CompileError = "Compile Error",
+    RuntimeError = "Runtime Error",
+    TimeLimitExceeded = "Time Limit Exceeded",
+    MemoryLimitExceeded = "Memory Limit Exceeded",
+    OutputLimitExceeded = "Output Limit Exceeded",
+    InternalError = "Internal Error",
+    Unknown = "Unknown",
+}
+
+export interface ISubmissionResult {
+    status: SubmissionStatus;
+    accepted: boolean;
+    messages: string[];
+    passedCases?: number;
+    totalCases?: number;
+    runtime?: string;
+    runtimePercentile?: number;
+    memory?: string;
+    memoryPercentile?: number;
+    input?: string;
+    expectedOutput?: string;
+    actualOutput?: string;
+    stdout?: string;
+    compileError?: string;
+    runtimeError?: string;
+    // The source locations found in the compile error or the runtime error
+    errorLocations?: IErrorLocation[];
+    // All the "key: value" sections printed by the CLI, in their original order
+    details: { [key: string]: string[] };
+}
+
+export interface IErrorLocation {
+    // 1-based, relative to the submitted code, i.e. the code between "@lc code=start" and "@lc code=end"
+    line: number;
+    column?: number;
+    message: string;
+    isWarning: boolean;
+}
+
+export enum SubmissionType {
+    Submit = "submit",
+    Test = "test",
+}
+
+export interface ISubmissionRecord {
+    id: string;
+    problemId: string;
+    language: string;
+    type: SubmissionType;
+    status: SubmissionStatus;
+    runtime?: string;
+    memory?: string;
+    timestamp: number;
+    code: string;
+}
+
+export enum SortingStrategy {
+    Id = "ID",
+    Name = "Name",
+    PassRate = "Pass Rate",
+    Difficulty = "Difficulty",
+}
+
+export interface IProblemFilter {
+    difficulties: string[];
+    states: ProblemState[];
+    includedTags: string[];
+    excludedTags: string[];
+    includedCompanies: string[];
+    excludedCompanies: string[];
+    minPassRate: number;
+    maxPassRate: number;
+    favoriteOnly: boolean;
+    // undefined means both the locked and unlocked problems are shown
+    locked?: boolean;
+    sortingStrategy: SortingStrategy;
+    descending: boolean;
+}
+
+export const defaultProblemFilter: IProblemFilter = {
+    difficulties: [] as string[],
+    states: [] as ProblemState[],
+    includedTags: [] as string[],
+    excludedTags: [] as string[],
+    includedCompanies: [] as string[],
+    excludedCompanies: [] as string[],
+    minPassRate: 0,
+    maxPassRate: 100,
+    favoriteOnly: false,
+    locked: undefined,
+    sortingStrategy: SortingStrategy.Id,
+    descending: false,
+};
+
+export interface IProblemList {
+    name: string;
+    problems: string[];
+}
+
+export interface IDailyChallenge {
+    // The date of the challenge on LeetCode, e.g. "2020-04-01"
+    date: string;
+    problemId: string;
+    name: string;
+    titleSlug: string;
+    difficulty: string;
+}
+
+export interface IContestProblem {
+    id: string;
+    name: string;
+    difficulty: string;
+    // The number of the wrong submissions before the problem is accepted
+    wrongSubmissions: number;
+    acceptedTime?: number;
+}
+
+export interface IContest {
+    startTime: number;
+    // In milliseconds
+    duration: number;
+    endTime?: number;
+    problems: IContestProblem[];
+}
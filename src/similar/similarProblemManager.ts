@@ -0,0 +1,65 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { IQuestionDetail, leetCodeClient } from "../client/leetCodeClient";
+import { getLeetCodeEndpoint } from "../commands/plugin";
+import { getProblemProvider } from "../providers/problemProvider";
+import { ISimilarProblem } from "../shared";
+import { parseTitleSlug } from "../utils/problemUtils";
+
+// An item of the "similarQuestions" JSON of a question
+interface ISimilarQuestion {
+    title: string;
+    titleSlug: string;
+    difficulty: string;
+    translatedTitle?: string | null;
+}
+
+class SimilarProblemManager implements vscode.Disposable {
+    // The similar problems parsed from the questions cached by the client, so that the explorer can look them up without a request
+    private similarProblems: Map<string, ISimilarProblem[]> = new Map<string, ISimilarProblem[]>();
+    private onDidChangeSimilarProblemsEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+
+    public get onDidChangeSimilarProblems(): vscode.Event<void> {
+        return this.onDidChangeSimilarProblemsEmitter.event;
+    }
+
+    // The similar problems which are already loaded, e.g. by the preview of the problem
+    public getLoadedSimilarProblems(problemId: string): ISimilarProblem[] | undefined {
+        return this.similarProblems.get(this.getKey(problemId));
+    }
+
+    // The title slug is looked up from the description if it's not given
+    public async getSimilarProblems(problemId: string, titleSlug?: string): Promise<ISimilarProblem[]> {
+        const key: string = this.getKey(problemId);
+        let similarProblems: ISimilarProblem[] | undefined = this.similarProblems.get(key);
+        if (!similarProblems) {
+            if (!titleSlug) {
+                titleSlug = parseTitleSlug(await getProblemProvider().getDescription(problemId));
+            }
+            const question: IQuestionDetail = await leetCodeClient.getQuestion(titleSlug);
+            const items: ISimilarQuestion[] = JSON.parse(question.similarQuestions || "[]");
+            similarProblems = items.map((item: ISimilarQuestion): ISimilarProblem => ({
+                title: item.title,
+                titleSlug: item.titleSlug,
+                difficulty: item.difficulty,
+            }));
+            this.similarProblems.set(key, similarProblems);
+            if (similarProblems.length > 0) {
+                this.onDidChangeSimilarProblemsEmitter.fire();
+            }
+        }
+        return similarProblems;
+    }
+
+    public dispose(): void {
+        this.onDidChangeSimilarProblemsEmitter.dispose();
+    }
+
+    private getKey(problemId: string): string {
+        return `${getLeetCodeEndpoint()}/${problemId}`;
+    }
+}
+
+export const similarProblemManager: SimilarProblemManager = new SimilarProblemManager();
@@ -0,0 +1,187 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as _ from "lodash";
+import * as path from "path";
+import * as vscode from "vscode";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { langExt } from "../shared";
+import { getWorkspaceFolder } from "../utils/settingUtils";
+
+// The folders which never contain the solution files
+const excludedFolders: string[] = ["node_modules", "out", "target", "bin", "obj"];
+// The "@lc" header is at the top of the solution file, so only the beginning of each file is read
+const headerSize: number = 1024;
+
+class SolutionIndex implements vscode.Disposable {
+    // Problem id -> the solution files
+    private solutions: Map<string, string[]> = new Map<string, string[]>();
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private listeners: vscode.Disposable[] = [];
+    private onDidChangeIndexEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+
+    public get onDidChangeIndex(): vscode.Event<void> {
+        return this.onDidChangeIndexEmitter.event;
+    }
+
+    public async initialize(): Promise<void> {
+        this.listeners.push(
+            vscode.workspace.onDidChangeConfiguration(async (event: vscode.ConfigurationChangeEvent) => {
+                if (event.affectsConfiguration("leetcode.workspaceFolder")) {
+                    await this.rebuild();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild()),
+        );
+        await this.rebuild();
+    }
+
+    public getSolutionFiles(problemId: string): string[] {
+        return this.solutions.get(problemId) || [];
+    }
+
+    public hasSolution(problemId: string): boolean {
+        return this.solutions.has(problemId);
+    }
+
+    public getProblemIds(): string[] {
+        return Array.from(this.solutions.keys());
+    }
+
+    // Scan the LeetCode workspace folder, or the opened workspace folders if it's not configured
+    public async rebuild(): Promise<void> {
+        this.disposeWatchers();
+        this.solutions.clear();
+        for (const root of getRootFolders()) {
+            try {
+                for (const filePath of await findSolutionFiles(root)) {
+                    await this.indexFile(filePath);
+                }
+            } catch (error) {
+                leetCodeChannel.appendLine(`Failed to scan the solution files in ${root}: ${error}`);
+            }
+            this.watch(root);
+        }
+        this.onDidChangeIndexEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.disposeWatchers();
+        for (const listener of this.listeners) {
+            listener.dispose();
+        }
+        this.listeners = [];
+        this.onDidChangeIndexEmitter.dispose();
+    }
+
+    private async indexFile(filePath: string): Promise<void> {
+        this.removeFile(filePath);
+        const problemId: string | undefined = await parseProblemId(filePath);
+        if (problemId) {
+            this.solutions.set(problemId, _.union(this.getSolutionFiles(problemId), [filePath]).sort());
+        }
+    }
+
+    private removeFile(filePath: string): void {
+        for (const [problemId, files] of this.solutions) {
+            if (files.indexOf(filePath) >= 0) {
+                const rest: string[] = files.filter((file: string) => file !== filePath);
+                if (rest.length > 0) {
+                    this.solutions.set(problemId, rest);
+                } else {
+                    this.solutions.delete(problemId);
+                }
+            }
+        }
+    }
+
+    private watch(root: string): void {
+        const extensions: string[] = _.uniq(Array.from(langExt.values()));
+        const watcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root, `**/*.{${extensions.join(",")}}`));
+        const onUpdate: (uri: vscode.Uri) => Promise<void> = async (uri: vscode.Uri): Promise<void> => {
+            if (isExcluded(path.relative(root, uri.fsPath))) {
+                return;
+            }
+            await this.indexFile(uri.fsPath);
+            this.onDidChangeIndexEmitter.fire();
+        };
+        watcher.onDidCreate(onUpdate);
+        watcher.onDidChange(onUpdate);
+        watcher.onDidDelete((uri: vscode.Uri) => {
+            this.removeFile(uri.fsPath);
+            this.onDidChangeIndexEmitter.fire();
+        });
+        this.watchers.push(watcher);
+    }
+
+    private disposeWatchers(): void {
+        for (const watcher of this.watchers) {
+            watcher.dispose();
+        }
+        this.watchers = [];
+    }
+}
+
+function getRootFolders(): string[] {
+    const workspaceFolder: string = getWorkspaceFolder().trim();
+    if (workspaceFolder) {
+        return [workspaceFolder];
+    }
+    return (vscode.workspace.workspaceFolders || []).map((folder: vscode.WorkspaceFolder) => folder.uri.fsPath);
+}
+
+async function findSolutionFiles(folder: string): Promise<string[]> {
+    if (!await fse.pathExists(folder)) {
+        return [];
+    }
+    const extensions: string[] = Array.from(langExt.values());
+    const res: string[] = [];
+    for (const name of await fse.readdir(folder)) {
+        if (isExcluded(name)) {
+            continue;
+        }
+        const filePath: string = path.join(folder, name);
+        // The symbolic links are not followed, which may point to the ancestor folders
+        const stat: fse.Stats = await fse.lstat(filePath);
+        if (stat.isDirectory()) {
+            res.push(...await findSolutionFiles(filePath));
+        } else if (stat.isFile() && extensions.indexOf(path.extname(name).slice(1)) >= 0) {
+            res.push(filePath);
+        }
+    }
+    return res;
+}
+
+// The hidden folders (e.g. ".git") and the build outputs are skipped
+function isExcluded(relativePath: string): boolean {
+    return relativePath.split(/[\\/]/).some((segment: string) => segment.startsWith(".") || excludedFolders.indexOf(segment) >= 0);
+}
+
+// Resolve the problem id from the "@lc" header, or the file name like "1.two-sum.js"
+async function parseProblemId(filePath: string): Promise<string | undefined> {
+    try {
+        const content: string = await readHeader(filePath);
+        const matchResults: RegExpMatchArray | null = content.match(/@lc app=\S+ id=(\S+)/);
+        if (matchResults) {
+            return matchResults[1];
+        }
+    } catch (error) {
+        return undefined;
+    }
+    const fileNameMatch: RegExpMatchArray | null = path.basename(filePath).match(/^(\d+)\./);
+    return fileNameMatch ? fileNameMatch[1] : undefined;
+}
+
+async function readHeader(filePath: string): Promise<string> {
+    const fd: number = await fse.open(filePath, "r");
+    try {
+        const buffer: Buffer = Buffer.alloc(headerSize);
+        const { bytesRead } = await fse.read(fd, buffer, 0, headerSize, 0);
+        return buffer.toString("utf8", 0, bytesRead);
+    } finally {
+        await fse.close(fd);
+    }
+}
+
+export const solutionIndex: SolutionIndex = new SolutionIndex();
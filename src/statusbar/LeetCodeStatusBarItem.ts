@@ -1,27 +1,75 @@
 // Copyright (c) jdneo. All rights reserved.
 // Licensed under the MIT license.
 
+import * as os from "os";
 import * as vscode from "vscode";
-import { UserStatus } from "../shared";
+import { formatDuration } from "../contest/contestManager";
+import { IContest, IContestProblem, UserStatus } from "../shared";
+
+export interface IDailyProgress {
+    solvedToday: number;
+    dailyGoal: number;
+    // The number of the consecutive days with accepted submissions, till today or yesterday
+    streak: number;
+    // Undefined if today's daily challenge is not fetched yet
+    dailySolved?: boolean;
+    // The number of the consecutive days with the daily challenge accepted
+    dailyStreak: number;
+}
+
+export interface IStatusBarProblem {
+    id: string;
+    name: string;
+    difficulty: string;
+}
 
 export class LeetCodeStatusBarItem implements vscode.Disposable {
     private readonly statusBarItem: vscode.StatusBarItem;
+    private user: string | undefined;
+    private progress: IDailyProgress | undefined;
+    private problem: IStatusBarProblem | undefined;
+    private contest: IContest | undefined;
+    private countdownTimer: NodeJS.Timer | undefined;
 
     constructor() {
         this.statusBarItem = vscode.window.createStatusBarItem();
-        this.statusBarItem.command = "leetcode.manageSessions";
+        this.statusBarItem.command = "leetcode.showQuickMenu";
     }
 
     public updateStatusBar(status: UserStatus, user?: string): void {
         switch (status) {
             case UserStatus.SignedIn:
-                this.statusBarItem.text = `LeetCode: ${user}`;
+                this.user = user;
                 break;
             case UserStatus.SignedOut:
             default:
-                this.statusBarItem.text = "";
+                this.user = undefined;
                 break;
         }
+        this.render();
+    }
+
+    public updateProgress(progress: IDailyProgress): void {
+        this.progress = progress;
+        this.render();
+    }
+
+    // The problem opened in the active editor
+    public updateProblem(problem: IStatusBarProblem | undefined): void {
+        this.problem = problem;
+        this.render();
+    }
+
+    // Show the countdown of the running contest, the countdown is removed when the contest is finished
+    public updateContest(contest: IContest | undefined): void {
+        this.contest = contest && !contest.endTime ? contest : undefined;
+        if (this.contest && !this.countdownTimer) {
+            this.countdownTimer = setInterval(() => this.render(), 1000);
+        } else if (!this.contest && this.countdownTimer) {
+            clearInterval(this.countdownTimer);
+            this.countdownTimer = undefined;
+        }
+        this.render();
     }
 
     public show(): void {
@@ -33,6 +81,45 @@ export class LeetCodeStatusBarItem implements vscode.Disposable {
     }
 
     public dispose(): void {
+        if (this.countdownTimer) {
+            clearInterval(this.countdownTimer);
+        }
         this.statusBarItem.dispose();
     }
+
+    private render(): void {
+        if (!this.user) {
+            this.statusBarItem.text = "";
+            this.statusBarItem.tooltip = undefined;
+            return;
+        }
+        const texts: string[] = [`LeetCode: ${this.user}`];
+        const tooltips: string[] = [];
+        if (this.problem) {
+            texts.push(`$(file-code) ${this.problem.id} ${this.problem.difficulty}`.trim());
+            tooltips.push(`Current problem: [${this.problem.id}] ${this.problem.name} ${this.problem.difficulty ? `(${this.problem.difficulty})` : ""}`.trim());
+        }
+        if (this.progress) {
+            const { solvedToday, dailyGoal, streak } = this.progress;
+            texts.push(dailyGoal > 0 ? `$(check) ${solvedToday}/${dailyGoal}` : `$(check) ${solvedToday}`);
+            tooltips.push(dailyGoal > 0 ? `Solved today: ${solvedToday} of the daily goal ${dailyGoal}` : `Solved today: ${solvedToday}`);
+            if (streak > 0) {
+                texts.push(`$(calendar) ${streak}`);
+                tooltips.push(`Streak: ${streak} day(s) in a row`);
+            }
+            const { dailySolved, dailyStreak } = this.progress;
+            if (dailySolved !== undefined || dailyStreak > 0) {
+                texts.push(`$(star) ${dailyStreak}`);
+                tooltips.push(`Daily challenge: ${dailySolved ? "solved" : "not solved yet"}, ${dailyStreak} day(s) in a row`);
+            }
+        }
+        if (this.contest) {
+            const remaining: number = this.contest.startTime + this.contest.duration - Date.now();
+            const solved: number = this.contest.problems.filter((problem: IContestProblem) => !!problem.acceptedTime).length;
+            texts.push(`$(watch) ${formatDuration(remaining)} (${solved}/${this.contest.problems.length})`);
+            tooltips.push("Virtual contest in progress");
+        }
+        this.statusBarItem.text = texts.join("  ");
+        this.statusBarItem.tooltip = tooltips.join(os.EOL) || undefined;
+    }
 }
@@ -1,32 +1,112 @@
 // Copyright (c) jdneo. All rights reserved.
 // Licensed under the MIT license.
 
-import { ConfigurationChangeEvent, Disposable, workspace, WorkspaceConfiguration } from "vscode";
-import { UserStatus } from "../shared";
-import { LeetCodeStatusBarItem } from "./LeetCodeStatusBarItem";
+import * as _ from "lodash";
+import { ConfigurationChangeEvent, Disposable, TextEditor, window, workspace, WorkspaceConfiguration } from "vscode";
+import { dailyChallengeManager } from "../daily/dailyChallengeManager";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { historyManager } from "../history/historyManager";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { IContest, ISubmissionRecord, SubmissionStatus, SubmissionType, UserStatus } from "../shared";
+import { IDailyProgress, LeetCodeStatusBarItem } from "./LeetCodeStatusBarItem";
+
+const dayInMs: number = 24 * 60 * 60 * 1000;
 
 class LeetCodeStatusBarController implements Disposable {
     private statusBar: LeetCodeStatusBarItem;
-    private configurationChangeListener: Disposable;
+    private listeners: Disposable[];
+    // Problem id -> the days when it's accepted, the history is read once and then updated for the changed problem only
+    private acceptedDays: Map<string, number[]> | undefined;
 
     constructor() {
         this.statusBar = new LeetCodeStatusBarItem();
         this.setStatusBarVisibility();
 
-        this.configurationChangeListener = workspace.onDidChangeConfiguration((event: ConfigurationChangeEvent) => {
-            if (event.affectsConfiguration("leetcode.enableStatusBar")) {
-                this.setStatusBarVisibility();
-            }
-        }, this);
+        this.listeners = [
+            workspace.onDidChangeConfiguration((event: ConfigurationChangeEvent) => {
+                if (event.affectsConfiguration("leetcode.enableStatusBar")) {
+                    this.setStatusBarVisibility();
+                }
+                if (event.affectsConfiguration("leetcode.dailyGoal")) {
+                    this.updateProgress();
+                }
+            }, this),
+            window.onDidChangeActiveTextEditor(() => this.updateActiveProblem(), this),
+            historyManager.onDidChangeHistory((problemId: string) => this.updateProgress(problemId), this),
+            dailyChallengeManager.onDidChangeDaily(() => this.updateProgress(), this),
+        ];
     }
 
     public updateStatusBar(status: UserStatus, user?: string): void {
         this.statusBar.updateStatusBar(status, user);
     }
 
+    public updateContest(contest: IContest | undefined): void {
+        this.statusBar.updateContest(contest);
+    }
+
+    // Count the problems accepted today and the streak from the local submission history, the errors are only logged
+    public async updateProgress(changedProblemId?: string): Promise<void> {
+        try {
+            const solvedCounts: { [day: number]: number } = {};
+            for (const days of (await this.loadAcceptedDays(changedProblemId)).values()) {
+                for (const recordDay of days) {
+                    solvedCounts[recordDay] = (solvedCounts[recordDay] || 0) + 1;
+                }
+            }
+            const today: number = getDay(Date.now());
+            // The streak is not broken until today is over
+            let day: number = solvedCounts[today] ? today : today - 1;
+            let streak: number = 0;
+            while (solvedCounts[day]) {
+                streak++;
+                day--;
+            }
+            const progress: IDailyProgress = {
+                solvedToday: solvedCounts[today] || 0,
+                dailyGoal: workspace.getConfiguration("leetcode").get<number>("dailyGoal", 1),
+                streak,
+                dailySolved: dailyChallengeManager.getCachedChallenge() ? dailyChallengeManager.isSolved() : undefined,
+                dailyStreak: dailyChallengeManager.getStreak(),
+            };
+            this.statusBar.updateProgress(progress);
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to update the daily progress: ${error}`);
+        }
+    }
+
+    public updateActiveProblem(): void {
+        const editor: TextEditor | undefined = window.activeTextEditor;
+        const match: RegExpMatchArray | null = editor ? editor.document.getText().match(/@lc app=.* id=(.*) lang=.*/) : null;
+        if (!match) {
+            this.statusBar.updateProblem(undefined);
+            return;
+        }
+        const id: string = match[1].trim();
+        const node: LeetCodeNode | undefined = explorerNodeManager.getNodeById(id);
+        this.statusBar.updateProblem(node ? { id, name: node.name, difficulty: node.difficulty } : { id, name: "", difficulty: "" });
+    }
+
     public dispose(): void {
         this.statusBar.dispose();
-        this.configurationChangeListener.dispose();
+        for (const listener of this.listeners) {
+            listener.dispose();
+        }
+    }
+
+    private async loadAcceptedDays(changedProblemId?: string): Promise<Map<string, number[]>> {
+        if (!this.acceptedDays) {
+            this.acceptedDays = groupAcceptedDays(await historyManager.getAllRecords());
+        } else if (changedProblemId) {
+            const days: number[] | undefined = groupAcceptedDays(await historyManager.getRecords(changedProblemId)).get(changedProblemId);
+            if (days) {
+                this.acceptedDays.set(changedProblemId, days);
+            } else {
+                this.acceptedDays.delete(changedProblemId);
+            }
+        }
+        return this.acceptedDays;
     }
 
     private setStatusBarVisibility(): void {
@@ -43,4 +123,20 @@ class LeetCodeStatusBarController implements Disposable {
     }
 }
 
+// The index of the local day since the epoch
+function groupAcceptedDays(records: ISubmissionRecord[]): Map<string, number[]> {
+    const res: Map<string, number[]> = new Map<string, number[]>();
+    for (const record of records) {
+        if (record.type === SubmissionType.Submit && record.status === SubmissionStatus.Accepted) {
+            res.set(record.problemId, _.union(res.get(record.problemId) || [], [getDay(record.timestamp)]));
+        }
+    }
+    return res;
+}
+
+function getDay(timestamp: number): number {
+    const date: Date = new Date(timestamp);
+    return Math.floor((timestamp - date.getTimezoneOffset() * 60 * 1000) / dayInMs);
+}
+
 export const leetCodeStatusBarController: LeetCodeStatusBarController = new LeetCodeStatusBarController();
@@ -4,6 +4,7 @@
 import * as cp from "child_process";
 import * as vscode from "vscode";
 import { leetCodeChannel } from "../leetCodeChannel";
+import { getHttpProxy } from "./settingUtils";
 
 interface IExecError extends Error {
     result?: string;
@@ -13,7 +14,7 @@ export async function executeCommand(command: string, args: string[], options: c
     return new Promise((resolve: (res: string) => void, reject: (e: Error) => void): void => {
         let result: string = "";
 
-        const childProc: cp.ChildProcess = cp.spawn(command, args, { ...options, env: createEnvOption() });
+        const childProc: cp.ChildProcess = cp.spawn(command, args, { ...options, env: createEnvOption(options.env) });
 
         childProc.stdout.on("data", (data: string | Buffer) => {
             data = data.toString();
@@ -55,17 +56,15 @@ export async function executeCommandWithProgress(message: string, command: strin
     return result;
 }
 
-// clone process.env and add http proxy
-export function createEnvOption(): {} {
-    const proxy: string | undefined = getHttpAgent();
-    if (proxy) {
-        const env: any = Object.create(process.env);
-        env.http_proxy = proxy;
+// clone process.env and add http proxy, together with the extra variables
+export function createEnvOption(extraEnv?: {}): {} {
+    const proxy: string | undefined = getHttpProxy();
+    if (proxy || extraEnv) {
+        const env: any = Object.assign(Object.create(process.env), extraEnv);
+        if (proxy) {
+            env.http_proxy = proxy;
+        }
         return env;
     }
     return process.env;
 }
-
-function getHttpAgent(): string | undefined {
-    return vscode.workspace.getConfiguration("http").get<string>("proxy");
-}
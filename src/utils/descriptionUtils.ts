@@ -0,0 +1,81 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as url from "url";
+import { IHttpResponse, nodeTransport } from "../client/transport";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { IDescription, IProblem } from "../shared";
+import { parseDescription } from "./problemUtils";
+
+// The first line of the generated description file, the files without it are never overwritten
+const generatedMarker: string = "<!-- @lc app=leetcode description -->";
+
+export async function isGeneratedDescriptionFile(filePath: string): Promise<boolean> {
+    if (!await fse.pathExists(filePath)) {
+        return false;
+    }
+    const content: string = await fse.readFile(filePath, "utf8");
+    return content.startsWith(generatedMarker);
+}
+
+// Write the description as a markdown file, the images are downloaded into the assets folder if it's specified
+export async function writeDescriptionFile(filePath: string, descString: string, node: IProblem, assetsFolder: string): Promise<void> {
+    const description: IDescription = parseDescription(descString, node);
+    let body: string = description.body;
+    if (assetsFolder) {
+        body = await downloadImages(body, node, path.dirname(filePath), path.resolve(path.dirname(filePath), assetsFolder));
+    }
+    const { title, url: problemUrl, category, difficulty, likes, dislikes, tags, companies } = description;
+    const content: string[] = [
+        generatedMarker,
+        "",
+        `# [${node.id}. ${title}](${problemUrl})`,
+        "",
+        `| Category | Difficulty | Likes | Dislikes |`,
+        `| :------: | :--------: | :---: | :------: |`,
+        `| ${category} | ${difficulty} | ${likes} | ${dislikes} |`,
+        "",
+        `**Tags**: ${tags.map((t: string) => `[\`${t}\`](https://leetcode.com/tag/${t})`).join(" | ") || "-"}`,
+        "",
+        `**Companies**: ${companies.map((c: string) => `\`${c}\``).join(" | ") || "-"}`,
+        "",
+        "---",
+        "",
+        body.trim(),
+        "",
+    ];
+    await fse.outputFile(filePath, content.join("\n"));
+}
+
+// Replace the remote image links with the downloaded local files, the remote link is kept if the download fails
+async function downloadImages(body: string, node: IProblem, descriptionFolder: string, assetsFolder: string): Promise<string> {
+    const sources: string[] = [];
+    const imagePattern: RegExp = /<img[^>]*?\ssrc\s*=\s*["']([^"']+)["']/gi;
+    let match: RegExpExecArray | null = imagePattern.exec(body);
+    while (match) {
+        if (/^https?:\/\//i.test(match[1]) && sources.indexOf(match[1]) < 0) {
+            sources.push(match[1]);
+        }
+        match = imagePattern.exec(body);
+    }
+    for (const source of sources) {
+        const fileName: string = `${node.id}-${path.basename(url.parse(source).pathname || "") || "image"}`;
+        const assetPath: string = path.join(assetsFolder, fileName);
+        try {
+            if (!await fse.pathExists(assetPath)) {
+                const res: IHttpResponse = await nodeTransport.request({ method: "GET", url: source, headers: {} });
+                if (res.statusCode !== 200) {
+                    throw new Error(`Status code: ${res.statusCode}.`);
+                }
+                await fse.outputFile(assetPath, res.rawBody || Buffer.from(res.body));
+            }
+            const relativePath: string = path.relative(descriptionFolder, assetPath).split(path.sep).join("/");
+            body = body.split(source).join(relativePath);
+        } catch (error) {
+            leetCodeChannel.appendLine(`[Warning] Failed to download the image ${source}: ${error}`);
+        }
+    }
+    return body;
+}
@@ -0,0 +1,104 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as vscode from "vscode";
+import { API, Change, GitExtension, Repository } from "../git";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { IProblem, ISubmissionResult } from "../shared";
+import { isGeneratedDescriptionFile } from "./descriptionUtils";
+import { getLanguageFromFile, resolveRelativePath } from "./problemUtils";
+import { getDescriptionFileConfiguration, getGitConfiguration, IDescriptionFileConfiguration } from "./settingUtils";
+import { getTestCaseFilePath } from "./testCaseUtils";
+
+// Stage the accepted solution with its description and test cases, then commit them with the templated message
+export async function commitAcceptedSolution(solutionPath: string, node: IProblem, result: ISubmissionResult): Promise<void> {
+    if (!getGitConfiguration().autoCommit) {
+        return;
+    }
+    const repository: Repository | undefined = await getRepository(solutionPath);
+    if (!repository) {
+        leetCodeChannel.appendLine(`[Git] Skipped the auto commit, ${solutionPath} is not in a git repository.`);
+        return;
+    }
+    // Never commit the changes staged by the user
+    if (repository.state.indexChanges.length > 0) {
+        vscode.window.showWarningMessage("The auto commit of the accepted solution is skipped, since there are staged changes in the repository.");
+        return;
+    }
+
+    const language: string = await getLanguageFromFile(solutionPath) || "";
+    const files: string[] = [solutionPath, ...await getRelatedFiles(solutionPath, node, language)];
+    await repository.add(files);
+    if (repository.state.indexChanges.length === 0) {
+        leetCodeChannel.appendLine(`[Git] Skipped the auto commit, nothing is changed in ${solutionPath}.`);
+        return;
+    }
+    // The difficulty is kept as it is shown in the message, e.g. "Easy"
+    const message: string = await resolveRelativePath(getGitConfiguration().commitMessage, node, language, Object.assign(getNonInteractivePlaceholders(node), {
+        difficulty: node.difficulty,
+        runtime: result.runtime || "N/A",
+        memory: result.memory || "N/A",
+    }));
+    const stagedFiles: string[] = repository.state.indexChanges.map((change: Change) => change.uri.fsPath);
+    await repository.commit(message);
+    leetCodeChannel.appendLine(`[Git] Committed "${message}": ${stagedFiles.join(", ")}`);
+}
+
+async function getRepository(filePath: string): Promise<Repository | undefined> {
+    const extension: vscode.Extension<GitExtension> | undefined = vscode.extensions.getExtension<GitExtension>("vscode.git");
+    if (!extension) {
+        return undefined;
+    }
+    const gitExtension: GitExtension = extension.isActive ? extension.exports : await extension.activate();
+    if (!gitExtension.enabled) {
+        return undefined;
+    }
+    const api: API = gitExtension.getAPI(1);
+    // The nested repository has the longest root path
+    const repositories: Repository[] = api.repositories
+        .filter((repository: Repository) => isInFolder(filePath, repository.rootUri.fsPath))
+        .sort((a: Repository, b: Repository) => b.rootUri.fsPath.length - a.rootUri.fsPath.length);
+    return repositories[0];
+}
+
+// The commit runs in the background, so the tag and the company are resolved without asking, i.e. the first one is used
+function getNonInteractivePlaceholders(node: IProblem): { [placeholder: string]: string } {
+    return {
+        tag: node.tags[0] || "",
+        company: node.companies[0] || "",
+    };
+}
+
+// The generated description file, its images and the test case file, if they exist
+async function getRelatedFiles(solutionPath: string, node: IProblem, language: string): Promise<string[]> {
+    const res: string[] = [getTestCaseFilePath(solutionPath)];
+    const config: IDescriptionFileConfiguration = getDescriptionFileConfiguration();
+    if (config.enabled) {
+        const descriptionPath: string = await resolveRelativePath(
+            path.join(path.dirname(solutionPath), config.filename), node, language, getNonInteractivePlaceholders(node),
+        );
+        // The file with the same name, e.g. the README of the repository, is never staged unless it's generated by the extension
+        if (await isGeneratedDescriptionFile(descriptionPath)) {
+            res.push(descriptionPath);
+        }
+        if (config.assetsFolder) {
+            const assetsFolder: string = path.resolve(path.dirname(descriptionPath), config.assetsFolder);
+            const assets: string[] = await fse.pathExists(assetsFolder) ? await fse.readdir(assetsFolder) : [];
+            res.push(...assets.filter((asset: string) => asset.startsWith(`${node.id}-`)).map((asset: string) => path.join(assetsFolder, asset)));
+        }
+    }
+    const existing: string[] = [];
+    for (const file of res) {
+        if (file && await fse.pathExists(file)) {
+            existing.push(file);
+        }
+    }
+    return existing;
+}
+
+function isInFolder(filePath: string, folder: string): boolean {
+    const relative: string = path.relative(folder, filePath);
+    return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
@@ -4,7 +4,10 @@
 import * as fse from "fs-extra";
 import * as _ from "lodash";
 import * as path from "path";
-import { IProblem, langExt } from "../shared";
+import * as vscode from "vscode";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { IDescription, IDescriptionExample, IProblem, langExt } from "../shared";
+import { parseExampleTestcase } from "./testCaseUtils";
 
 export function genFileExt(language: string): string {
     const ext: string | undefined = langExt.get(language);
@@ -34,3 +37,202 @@ export async function getNodeIdFromFile(fsPath: string): Promise<string> {
 
     return id;
 }
+
+export async function getLanguageFromFile(fsPath: string): Promise<string | undefined> {
+    const fileContent: string = await fse.readFile(fsPath, "utf8");
+    const matchResults: RegExpMatchArray | null = fileContent.match(/@lc.+lang=(\S+)/);
+    if (matchResults && matchResults.length === 2) {
+        return matchResults[1];
+    }
+    // Try to get language from file extension if getting from comments failed
+    const ext: string = path.extname(fsPath).slice(1);
+    for (const [language, languageExt] of langExt) {
+        if (languageExt === ext) {
+            return language;
+        }
+    }
+    return undefined;
+}
+
+// The languages of the solution files, the files which can't be resolved are skipped
+export async function getSolutionLanguages(files: string[]): Promise<string[]> {
+    const res: string[] = [];
+    for (const file of files) {
+        const language: string | undefined = await getLanguageFromFile(file).catch(() => undefined);
+        if (language && res.indexOf(language) < 0) {
+            res.push(language);
+        }
+    }
+    return res;
+}
+
+export function parseDescription(descString: string, problem: IProblem): IDescription {
+    const [
+        /* title */, ,
+        url, ,
+        /* tags */, ,
+        /* langs */, ,
+        category,
+        difficulty,
+        likes,
+        dislikes,
+        /* accepted */,
+        /* submissions */,
+        testcase, ,
+        ...body
+    ] = descString.split("\n");
+    const examples: Array<IDescriptionExample | undefined> = parseExamples(body.join("\n"));
+    // The test case of the first example is given as it is, which is more reliable than the one parsed from the text
+    const sampleTestcase: string = parseExampleTestcase(testcase);
+    const firstExample: IDescriptionExample | undefined = examples[0];
+    if (firstExample && sampleTestcase) {
+        firstExample.input = sampleTestcase;
+    }
+    return {
+        title: problem.name,
+        url,
+        tags: problem.tags,
+        companies: problem.companies,
+        category: category.slice(2),
+        difficulty: difficulty.slice(2),
+        likes: likes.split(": ")[1].trim(),
+        dislikes: dislikes.split(": ")[1].trim(),
+        body: body.join("\n").replace(/<pre>[\r\n]*([^]+?)[\r\n]*<\/pre>/g, "<pre><code>$1</code></pre>"),
+        examples,
+    };
+}
+
+// The title slug in the url of the description, e.g. "two-sum"
+export function parseTitleSlug(descString: string): string {
+    const matchResults: RegExpMatchArray | null = descString.match(/\/problems\/([^/\s]+)/);
+    if (!matchResults) {
+        throw new Error("Failed to parse the title slug from the description.");
+    }
+    return matchResults[1];
+}
+
+// The examples start with the "Example N:" headings, which are followed by either a <pre> block or the "example-block" paragraphs.
+// There is one item for each heading, which is undefined if the example can't be parsed.
+function parseExamples(html: string): Array<IDescriptionExample | undefined> {
+    const segments: string[] = html.split(/<strong[^>]*>\s*Example\s*\d*\s*:?\s*<\/strong>/i).slice(1);
+    const res: Array<IDescriptionExample | undefined> = [];
+    for (const segment of segments) {
+        const text: string = htmlToText(segment).split(/Constraints:|Follow[- ]up|Note:/i)[0];
+        const matchResults: RegExpMatchArray | null = text.match(/Input:?\s*([^]*?)\s*Output:?\s*([^]*?)\s*(?:Explanation:?\s*([^]*?)\s*)?$/);
+        if (!matchResults) {
+            res.push(undefined);
+            continue;
+        }
+        res.push({
+            input: toTestCase(matchResults[1]),
+            output: matchResults[2],
+            explanation: matchResults[3] || undefined,
+        });
+    }
+    return res;
+}
+
+// Convert the example input like "nums = [2,7,11,15], target = 9" to the test case with one argument per line
+function toTestCase(input: string): string {
+    if (input.indexOf("\n") >= 0) {
+        return input.split(/\r?\n/).map((line: string) => line.trim()).filter(Boolean).join("\n");
+    }
+    return input
+        .split(/,\s*(?=[A-Za-z_]\w*\s*=)/)
+        .map((arg: string) => arg.replace(/^\s*[A-Za-z_]\w*\s*=\s*/, "").trim())
+        .join("\n");
+}
+
+function htmlToText(html: string): string {
+    return html
+        .replace(/<sup>/g, "^")
+        .replace(/<[^>]*>/g, "")
+        .replace(/&nbsp;/g, " ")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&#39;/g, "'")
+        .replace(/&#(\d+);/g, (_match: string, code: string) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, "&")
+        .trim();
+}
+
+// Resolve the placeholders like "${id}" of the "leetcode.filePath" setting, the extra placeholders are resolved first
+export async function resolveRelativePath(
+    relativePath: string,
+    node: IProblem,
+    selectedLanguage: string,
+    extraPlaceholders: { [placeholder: string]: string } = {},
+): Promise<string> {
+    let tag: string = "";
+    if (/\$\{tag\}/i.test(relativePath) && !extraPlaceholders.hasOwnProperty("tag")) {
+        tag = (await resolveTagForProblem(node)) || "";
+    }
+
+    let company: string = "";
+    if (/\$\{company\}/i.test(relativePath) && !extraPlaceholders.hasOwnProperty("company")) {
+        company = (await resolveCompanyForProblem(node)) || "";
+    }
+
+    return relativePath.replace(/\$\{(.*?)\}/g, (_substring: string, ...args: string[]) => {
+        const placeholder: string = args[0].toLowerCase().trim();
+        if (extraPlaceholders.hasOwnProperty(placeholder)) {
+            return extraPlaceholders[placeholder];
+        }
+        switch (placeholder) {
+            case "id":
+                return node.id;
+            case "name":
+                return node.name;
+            case "camelcasename":
+                return _.camelCase(node.name);
+            case "pascalcasename":
+                return _.upperFirst(_.camelCase(node.name));
+            case "kebabcasename":
+            case "kebab-case-name":
+                return _.kebabCase(node.name);
+            case "snakecasename":
+            case "snake_case_name":
+                return _.snakeCase(node.name);
+            case "ext":
+                return genFileExt(selectedLanguage);
+            case "language":
+                return selectedLanguage;
+            case "difficulty":
+                return node.difficulty.toLocaleLowerCase();
+            case "tag":
+                return tag;
+            case "company":
+                return company;
+            default:
+                const errorMsg: string = `The config '${placeholder}' is not supported.`;
+                leetCodeChannel.appendLine(errorMsg);
+                throw new Error(errorMsg);
+        }
+    });
+}
+
+async function resolveTagForProblem(problem: IProblem): Promise<string | undefined> {
+    if (problem.tags.length === 1) {
+        return problem.tags[0];
+    }
+    return await vscode.window.showQuickPick(
+        problem.tags,
+        {
+            matchOnDetail: true,
+            placeHolder: "Multiple tags available, please select one",
+            ignoreFocusOut: true,
+        },
+    );
+}
+
+async function resolveCompanyForProblem(problem: IProblem): Promise<string | undefined> {
+    if (problem.companies.length === 1) {
+        return problem.companies[0];
+    }
+    return await vscode.window.showQuickPick(problem.companies, {
+        matchOnDetail: true,
+        placeHolder: "Multiple tags available, please select one",
+        ignoreFocusOut: true,
+    });
+}
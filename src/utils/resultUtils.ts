@@ -0,0 +1,225 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import { IErrorLocation, ISubmissionResult, SubmissionStatus } from "../shared";
+
+export function parseSubmissionResult(raw: string): ISubmissionResult {
+    const result: ISubmissionResult = {
+        status: SubmissionStatus.Unknown,
+        accepted: false,
+        messages: [],
+        details: {},
+    };
+
+    raw = raw.replace(/\r\n/g, "\n").concat("  √ "); // Append a dummy sentinel to the end of raw string
+    const regSplit: RegExp = /  ([√×✔✘vx]) ([^]+?)\n(?=  [√×✔✘vx] )/g;
+    const regKeyVal: RegExp = /(.+?): ([^]*)/;
+    let entry: RegExpExecArray | null;
+    let passed: boolean = true;
+    do {
+        entry = regSplit.exec(raw);
+        if (!entry) {
+            continue;
+        }
+        passed = passed && /[√✔v]/.test(entry[1]);
+        const kvMatch: RegExpExecArray | null = regKeyVal.exec(entry[2]);
+        if (kvMatch) {
+            const [key, value] = kvMatch.slice(1);
+            if (value.trim()) { // Do not keep empty string
+                if (!result.details[key]) {
+                    result.details[key] = [];
+                }
+                result.details[key].push(value.trim());
+            }
+        } else {
+            result.messages.push(entry[2].trim());
+        }
+    } while (entry);
+
+    for (const message of result.messages) {
+        parseMessage(result, message);
+    }
+    // The CLI prints "Finished" for the test run which is judged without errors, the marks tell whether the answer is expected
+    if (result.status === SubmissionStatus.Unknown && result.messages[0] === "Finished") {
+        result.status = passed ? SubmissionStatus.Accepted : SubmissionStatus.WrongAnswer;
+    }
+    for (const key of Object.keys(result.details)) {
+        parseDetail(result, key, result.details[key].join("\n"));
+    }
+
+    result.errorLocations = parseErrorLocations([result.compileError, result.runtimeError].join("\n"));
+    result.accepted = result.status === SubmissionStatus.Accepted;
+    return result;
+}
+
+// Find the source locations in the compiler output and the stack traces, the frames of the judge's driver code are skipped
+export function parseErrorLocations(output: string): IErrorLocation[] {
+    const lines: string[] = output.split(/\r?\n/);
+    const summary: string = getErrorSummary(lines);
+    const res: IErrorLocation[] = [];
+    // The source is the file or the function of the location, which tells whether it's in the driver code
+    const add: (line: string, column: string | undefined, message: string, source?: string) => void =
+        (line: string, column: string | undefined, message: string, source?: string): void => {
+            if (source && isDriverCode(source)) {
+                return;
+            }
+            const location: IErrorLocation = {
+                line: Number(line),
+                column: column ? Number(column) : undefined,
+                message: message.trim() || summary,
+                isWarning: /^warning\b/i.test(message.trim()),
+            };
+            if (!res.some((l: IErrorLocation) => l.line === location.line && l.message === location.message)) {
+                res.push(location);
+            }
+        };
+    const patterns: Array<[RegExp, (match: RegExpMatchArray, index: number) => void]> = [
+        // e.g. "Line 5: Char 12 in solution.js (twoSum)" or "Line 5 in twoSum (Solution.py)"
+        [/^\s*Line (\d+)(?:: Char (\d+))? in (\S+) \(([^)]*)\)/, (match: RegExpMatchArray): void => {
+            add(match[1], match[2], summary, `${match[3]} ${match[4]}`);
+        }],
+        // e.g. "Line 5: Char 9: error: use of undeclared identifier 'x'" or "Line 3: error: ';' expected"
+        [/^\s*Line (\d+): (?:Char (\d+): )?(.*)$/, (match: RegExpMatchArray): void => {
+            add(match[1], match[2], match[3]);
+        }],
+        // e.g. "solution.cpp:5:9: error: ..." or "Solution.java:3: error: ..."
+        [/^\s*([^\s:]+\.\w+):(\d+):(?:(\d+):)?\s*((?:fatal )?(?:error|warning)\b.*)$/i, (match: RegExpMatchArray): void => {
+            add(match[2], match[3], match[4], match[1]);
+        }],
+        // e.g. "error[E0425]: cannot find value `x` in this scope\n --> src/main.rs:5:9"
+        [/^\s*--> ([^:]+):(\d+):(\d+)/, (match: RegExpMatchArray, index: number): void => {
+            const header: string | undefined = lines.slice(0, index).reverse().find((l: string) => /^(error|warning)\b/.test(l));
+            add(match[2], match[3], header || summary, match[1]);
+        }],
+        // e.g. 'File "solution.py", line 5, in twoSum'
+        [/^\s*File "([^"]+)", line (\d+)/, (match: RegExpMatchArray): void => {
+            add(match[2], undefined, summary, match[1]);
+        }],
+        // e.g. "at line 5, Solution.twoSum"
+        [/^\s*at line (\d+), (\S+)/, (match: RegExpMatchArray): void => {
+            add(match[1], undefined, summary, match[2]);
+        }],
+    ];
+    lines.forEach((line: string, index: number) => {
+        for (const [pattern, onMatch] of patterns) {
+            const match: RegExpMatchArray | null = line.match(pattern);
+            if (match) {
+                onMatch(match, index);
+                break;
+            }
+        }
+    });
+    return res;
+}
+
+export function parseSubmissionStatus(message: string): SubmissionStatus {
+    const normalized: string = message.trim().toLowerCase();
+    for (const key of Object.keys(SubmissionStatus)) {
+        const status: SubmissionStatus = SubmissionStatus[key as keyof typeof SubmissionStatus];
+        if (status.toLowerCase() === normalized) {
+            return status;
+        }
+    }
+    return SubmissionStatus.Unknown;
+}
+
+function parseMessage(result: ISubmissionResult, message: string): void {
+    if (result.status === SubmissionStatus.Unknown) {
+        const status: SubmissionStatus = parseSubmissionStatus(message);
+        if (status !== SubmissionStatus.Unknown) {
+            result.status = status;
+            return;
+        }
+    }
+
+    // e.g. "37/57 cases passed (N/A)"
+    const casesMatch: RegExpMatchArray | null = message.match(/^(\d+)\/(\d+) cases passed \((.+)\)/);
+    if (casesMatch) {
+        result.passedCases = Number(casesMatch[1]);
+        result.totalCases = Number(casesMatch[2]);
+        if (casesMatch[3] !== "N/A") {
+            result.runtime = casesMatch[3];
+        }
+        return;
+    }
+
+    // e.g. "Your runtime beats 92.8 % of javascript submissions"
+    const runtimeMatch: RegExpMatchArray | null = message.match(/^Your runtime beats ([\d.]+) %/);
+    if (runtimeMatch) {
+        result.runtimePercentile = Number(runtimeMatch[1]);
+        return;
+    }
+
+    // e.g. "Your memory usage beats 61.19 % of javascript submissions (34.8 MB)"
+    const memoryMatch: RegExpMatchArray | null = message.match(/^Your memory usage beats ([\d.]+) %.*?(?:\((.+)\))?$/);
+    if (memoryMatch) {
+        result.memoryPercentile = Number(memoryMatch[1]);
+        if (memoryMatch[2]) {
+            result.memory = memoryMatch[2];
+        }
+    }
+}
+
+function parseDetail(result: ISubmissionResult, key: string, value: string): void {
+    // The key may carry the runtime of a test run, e.g. "Output (0 ms)"
+    const keyMatch: RegExpMatchArray = key.match(/^(.+?)\s*(?:\((.+)\))?$/)!;
+    const name: string = keyMatch[1].toLowerCase().replace(/[_\s]+/g, " ");
+    if (keyMatch[2] && !result.runtime) {
+        result.runtime = keyMatch[2];
+    }
+
+    switch (name) {
+        case "testcase":
+        case "input":
+        case "your input":
+        case "failed test":
+        case "last executed input":
+            result.input = value;
+            break;
+        case "answer":
+        case "output":
+        case "your answer":
+            result.actualOutput = value;
+            break;
+        case "expected answer":
+        case "expected":
+        case "expected output":
+            result.expectedOutput = value;
+            break;
+        case "stdout":
+            result.stdout = value;
+            break;
+        case "runtime":
+            result.runtime = result.runtime || value;
+            break;
+        case "memory":
+            result.memory = result.memory || value;
+            break;
+        case "compile error":
+            result.compileError = value;
+            break;
+        case "runtime error":
+            result.runtimeError = value;
+            break;
+        case "error":
+            if (result.status === SubmissionStatus.CompileError) {
+                result.compileError = value;
+            } else {
+                result.runtimeError = value;
+            }
+            break;
+        default:
+            break;
+    }
+}
+
+// The exception line of the stack trace, e.g. "NameError: name 'x' is not defined"
+function getErrorSummary(lines: string[]): string {
+    const exception: string | undefined = lines.find((line: string) => /^[\w.$]*(Error|Exception|panicked)\b/.test(line.trim()));
+    return (exception || lines.find((line: string) => !!line.trim()) || "").trim();
+}
+
+// The module level code and the runner around the solution are the judge's, e.g. "<module>" in Python and "Object.<anonymous>" in JavaScript
+function isDriverCode(source: string): boolean {
+    return /driver|prog_joined|precompiled|runner|__|<module>|<anonymous>/i.test(source);
+}
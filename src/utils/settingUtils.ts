@@ -4,6 +4,9 @@
 import { workspace, WorkspaceConfiguration } from "vscode";
 import { DescriptionConfiguration } from "../shared";
 
+const defaultDescriptionFilename: string = "${id}.${kebab-case-name}.md";
+const defaultCommitMessage: string = "[${id}] ${name} (${difficulty}) — ${language}, ${runtime} / ${memory}";
+
 export function getWorkspaceConfiguration(): WorkspaceConfiguration {
     return workspace.getConfiguration("leetcode");
 }
@@ -12,16 +15,52 @@ export function shouldHideSolvedProblem(): boolean {
     return getWorkspaceConfiguration().get<boolean>("hideSolved", false);
 }
 
+export function shouldSuggestNextSimilarProblem(): boolean {
+    return getWorkspaceConfiguration().get<boolean>("similarProblems.suggestNext", true);
+}
+
+export function shouldShowBothEndpoints(): boolean {
+    return getWorkspaceConfiguration().get<boolean>("explorer.showBothEndpoints", false);
+}
+
+// The proxy configured in VS Code, which is shared by the LeetCode client and the CLI
+export function getHttpProxy(): string | undefined {
+    return workspace.getConfiguration("http").get<string>("proxy") || undefined;
+}
+
 export function getWorkspaceFolder(): string {
     return getWorkspaceConfiguration().get<string>("workspaceFolder", "");
 }
 
+export function getProblemListsFile(): string {
+    return getWorkspaceConfiguration().get<string>("problemListsFile", "");
+}
+
+export function getDescriptionFileConfiguration(): IDescriptionFileConfiguration {
+    return {
+        enabled: getWorkspaceConfiguration().get<boolean>("descriptionFile.enabled", false),
+        filename: getWorkspaceConfiguration().get<string>("descriptionFile.filename", defaultDescriptionFilename).trim() || defaultDescriptionFilename,
+        assetsFolder: getWorkspaceConfiguration().get<string>("descriptionFile.assetsFolder", "assets").trim(),
+    };
+}
+
+export function getGitConfiguration(): IGitConfiguration {
+    return {
+        autoCommit: getWorkspaceConfiguration().get<boolean>("git.autoCommit", false),
+        commitMessage: getWorkspaceConfiguration().get<string>("git.commitMessage", defaultCommitMessage).trim() || defaultCommitMessage,
+    };
+}
+
+export function getSolutionCount(): number {
+    return Math.max(1, getWorkspaceConfiguration().get<number>("solutions.count", 10));
+}
+
 export function getEditorShortcuts(): string[] {
-    return getWorkspaceConfiguration().get<string[]>("editor.shortcuts", ["submit", "test"]);
+    return getWorkspaceConfiguration().get<string[]>("editor.shortcuts", ["submit", "test", "tests"]);
 }
 
 export function hasStarShortcut(): boolean {
-    const shortcuts: string[] = getWorkspaceConfiguration().get<string[]>("editor.shortcuts", ["submit", "test"]);
+    const shortcuts: string[] = getWorkspaceConfiguration().get<string[]>("editor.shortcuts", ["submit", "test", "tests"]);
     return shortcuts.indexOf("star") >= 0;
 }
 
@@ -62,3 +101,17 @@ export interface IDescriptionConfiguration {
     showInComment: boolean;
     showInWebview: boolean;
 }
+
+export interface IDescriptionFileConfiguration {
+    enabled: boolean;
+    // Relative to the folder of the solution file, the placeholders of "leetcode.filePath" are supported
+    filename: string;
+    // Relative to the folder of the description file, the images are not downloaded when it's empty
+    assetsFolder: string;
+}
+
+export interface IGitConfiguration {
+    autoCommit: boolean;
+    // The placeholders of "leetcode.filePath" are supported, together with "${runtime}" and "${memory}"
+    commitMessage: string;
+}
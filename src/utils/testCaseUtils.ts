@@ -0,0 +1,115 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as unescapeJS from "unescape-js";
+
+export interface ITestCase {
+    input: string[];
+    expected?: string;
+}
+
+// The test cases of a solution are saved in a sidecar file, e.g. "1.two-sum.js" -> "1.two-sum.tests.txt"
+export function getTestCaseFilePath(solutionPath: string): string {
+    const parsed: path.ParsedPath = path.parse(solutionPath);
+    return path.join(parsed.dir, `${parsed.name}.tests.txt`);
+}
+
+export async function createTestCaseFile(solutionPath: string, problemId: string, exampleTestcase: string): Promise<void> {
+    const lines: string[] = [
+        `# Test cases of problem ${problemId}, each parameter takes one line.`,
+        "# Add \"# expected: <output>\" under a case to check its output when running locally.",
+        "",
+    ];
+    if (exampleTestcase) {
+        lines.push(...exampleTestcase.split(/\r?\n/), "");
+    }
+    await fse.outputFile(getTestCaseFilePath(solutionPath), lines.join(os.EOL));
+}
+
+/**
+ * Append the cases to the test case file, the cases which are already saved will be skipped.
+ * The cases are compared one by one, which are split by the parameter count. Without the parameter count,
+ * the lines are regarded as a single case.
+ */
+export async function appendTestCase(solutionPath: string, testcase: string, paramCount?: number): Promise<void> {
+    const testCaseFilePath: string = getTestCaseFilePath(solutionPath);
+    const lines: string[] = testcase.split(/\r?\n/).map((line: string) => line.trim()).filter((line: string) => !!line);
+    if (lines.length === 0) {
+        return;
+    }
+    const content: string = await fse.pathExists(testCaseFilePath) ? await fse.readFile(testCaseFilePath, "utf8") : "";
+    const count: number = paramCount && paramCount > 0 ? paramCount : lines.length;
+    const savedInputs: string[] = parseTestCases(content, count).map((testCase: ITestCase) => testCase.input.join("\n"));
+    const newLines: string[] = [];
+    for (let i: number = 0; i < lines.length; i += count) {
+        const input: string[] = lines.slice(i, i + count);
+        if (savedInputs.indexOf(input.join("\n")) < 0) {
+            savedInputs.push(input.join("\n"));
+            newLines.push(...input);
+        }
+    }
+    if (newLines.length === 0) {
+        return;
+    }
+    const separator: string = !content || content.endsWith("\n") ? "" : os.EOL;
+    await fse.outputFile(testCaseFilePath, `${content}${separator}${newLines.join(os.EOL)}${os.EOL}`);
+}
+
+// Get the test input which can be sent to LeetCode, i.e. without the blank lines and the comments
+export function getTestInput(content: string): string {
+    return content
+        .split(/\r?\n/)
+        .map((line: string) => line.trim())
+        .filter((line: string) => !!line && !line.startsWith("#"))
+        .join("\n");
+}
+
+// Parse the example testcase from the problem description printed by the CLI, e.g. "* Testcase Example:  '[2,7,11,15]\\n9'"
+export function parseExampleTestcase(description: string): string {
+    const match: RegExpMatchArray | null = description.match(/^\* Testcase Example:\s*(.*)$/m);
+    if (!match) {
+        return "";
+    }
+    return unescapeJS(match[1].trim().replace(/^'([^]*)'$/, "$1"));
+}
+
+export async function readTestCases(solutionPath: string, paramCount: number): Promise<ITestCase[]> {
+    const testCaseFilePath: string = getTestCaseFilePath(solutionPath);
+    if (!await fse.pathExists(testCaseFilePath)) {
+        return [];
+    }
+    return parseTestCases(await fse.readFile(testCaseFilePath, "utf8"), paramCount);
+}
+
+/**
+ * Every parameter of a test case takes one line, in the same format as the LeetCode test input.
+ * Blank lines and the lines starting with "#" are ignored, except "# expected: <output>",
+ * which specifies the expected output of the test case right above it.
+ */
+export function parseTestCases(content: string, paramCount: number): ITestCase[] {
+    if (paramCount <= 0) {
+        return [{ input: [] }];
+    }
+    const testCases: ITestCase[] = [];
+    let input: string[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line: string = rawLine.trim();
+        const expectedMatch: RegExpMatchArray | null = line.match(/^#\s*expected:\s*(.*)$/i);
+        if (expectedMatch && input.length === 0 && testCases.length > 0) {
+            testCases[testCases.length - 1].expected = expectedMatch[1].trim();
+            continue;
+        }
+        if (!line || line.startsWith("#")) {
+            continue;
+        }
+        input.push(line);
+        if (input.length === paramCount) {
+            testCases.push({ input });
+            input = [];
+        }
+    }
+    return testCases;
+}
@@ -18,7 +18,7 @@ export async function selectWorkspaceFolder(): Promise<string> {
             return workspaceFolderSetting;
         }
     }
-    const workspaceFolders: vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders || [];
+    const workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder> = vscode.workspace.workspaceFolders || [];
     let needAsk: boolean = true;
     for (const folder of workspaceFolders) {
         if (isSubFolder(folder.uri.fsPath, workspaceFolderSetting)) {
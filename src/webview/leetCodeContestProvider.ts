@@ -0,0 +1,146 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as _ from "lodash";
+import { commands, Disposable, ViewColumn } from "vscode";
+import { contestManager, formatDuration, getPenaltyTime, penaltyPerWrongSubmission } from "../contest/contestManager";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { IContest, IContestProblem } from "../shared";
+import { ILeetCodeWebviewOption, LeetCodeWebview } from "./LeetCodeWebview";
+import { markdownEngine } from "./markdownEngine";
+
+class LeetCodeContestProvider extends LeetCodeWebview {
+
+    protected readonly viewType: string = "leetcode.contest";
+    private contest: IContest;
+    private contestChangeListener: Disposable;
+
+    constructor() {
+        super();
+        this.contestChangeListener = contestManager.onDidChangeContest((contest: IContest) => {
+            if (this.panel) {
+                this.show(contest);
+            }
+        });
+    }
+
+    public show(contest: IContest): void {
+        this.contest = contest;
+        this.showWebviewInternal();
+    }
+
+    public dispose(): void {
+        super.dispose();
+        this.contestChangeListener.dispose();
+    }
+
+    protected getWebviewOption(): ILeetCodeWebviewOption {
+        return {
+            title: this.contest.endTime ? "Virtual Contest: Scoreboard" : "Virtual Contest",
+            viewColumn: ViewColumn.One,
+            preserveFocus: true,
+        };
+    }
+
+    protected getWebviewContent(): string {
+        const { startTime, duration, endTime, problems } = this.contest;
+        const solved: IContestProblem[] = problems.filter((problem: IContestProblem) => !!problem.acceptedTime);
+        const totalTime: number = _.sum(solved.map((problem: IContestProblem) => getPenaltyTime(this.contest, problem)));
+        const summary: string[] = [
+            `Started at ${new Date(startTime).toLocaleString()}, ${duration / 60000} minutes in total.`,
+            "",
+            endTime
+                ? `Finished in ${formatDuration(endTime - startTime)}: solved ${solved.length} of ${problems.length}, finish time with penalty ${formatDuration(totalTime)}.`
+                : `Solved ${solved.length} of ${problems.length}, the contest ends at ${new Date(startTime + duration).toLocaleTimeString()}.`,
+            "",
+            `Every wrong submission before a problem is accepted adds ${penaltyPerWrongSubmission / 60000} minutes of penalty.`,
+        ];
+        const rows: string[] = problems.map((problem: IContestProblem, index: number) => `
+            <tr>
+                <td>${String.fromCharCode(65 + index)}</td>
+                <td><a href="#" class="open" data-id="${problem.id}">[${problem.id}] ${_.escape(problem.name)}</a></td>
+                <td>${problem.difficulty}</td>
+                <td class="${problem.acceptedTime ? "accepted" : (problem.wrongSubmissions ? "failed" : "")}">
+                    ${problem.acceptedTime ? formatDuration(problem.acceptedTime - startTime) : "-"}
+                </td>
+                <td>${problem.wrongSubmissions + (problem.acceptedTime ? 1 : 0)}</td>
+                <td>${problem.acceptedTime ? formatDuration(getPenaltyTime(this.contest, problem)) : "-"}</td>
+            </tr>
+        `);
+        return `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https:; script-src vscode-resource: 'unsafe-inline'; style-src vscode-resource: 'unsafe-inline';"/>
+                ${markdownEngine.getStyles()}
+                <style>
+                    .accepted { color: var(--vscode-terminal-ansiGreen); }
+                    .failed { color: var(--vscode-terminal-ansiRed); }
+                    #end {
+                        border: 0;
+                        margin: 1rem 0;
+                        padding: 0.2rem 1rem;
+                        color: white;
+                        background-color: var(--vscode-button-background);
+                    }
+                    #end:hover {
+                        background-color: var(--vscode-button-hoverBackground);
+                    }
+                </style>
+            </head>
+            <body>
+                ${markdownEngine.render(endTime ? "# Scoreboard" : "# Virtual Contest")}
+                ${markdownEngine.render(summary.join("\n"))}
+                <table>
+                    <thead>
+                        <tr><th>#</th><th>Problem</th><th>Difficulty</th><th>Accepted At</th><th>Attempts</th><th>Time with Penalty</th></tr>
+                    </thead>
+                    <tbody>
+                        ${rows.join("\n")}
+                    </tbody>
+                </table>
+                ${endTime ? "" : `<button id="end">End Contest</button>`}
+                <script>
+                    const vscode = acquireVsCodeApi();
+                    const endButton = document.getElementById('end');
+                    if (endButton) {
+                        endButton.onclick = () => vscode.postMessage({ command: 'End' });
+                    }
+                    for (const link of document.querySelectorAll('.open')) {
+                        link.onclick = () => vscode.postMessage({ command: 'Open', id: link.dataset.id });
+                    }
+                </script>
+            </body>
+            </html>
+        `;
+    }
+
+    protected onDidDisposeWebview(): void {
+        super.onDidDisposeWebview();
+        delete this.contest;
+    }
+
+    protected async onDidReceiveMessage(message: IWebViewMessage): Promise<void> {
+        switch (message.command) {
+            case "Open": {
+                const node: LeetCodeNode | undefined = explorerNodeManager.getNodeById(message.id || "");
+                if (node) {
+                    await commands.executeCommand("leetcode.previewProblem", node);
+                }
+                break;
+            }
+            case "End": {
+                await commands.executeCommand("leetcode.endContest");
+                break;
+            }
+        }
+    }
+}
+
+interface IWebViewMessage {
+    command: string;
+    id?: string;
+}
+
+export const leetCodeContestProvider: LeetCodeContestProvider = new LeetCodeContestProvider();
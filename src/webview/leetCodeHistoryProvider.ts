@@ -0,0 +1,168 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as _ from "lodash";
+import { commands, Disposable, ViewColumn } from "vscode";
+import { historyDocumentProvider } from "../history/historyDocumentProvider";
+import { historyManager } from "../history/historyManager";
+import { IProblem, ISubmissionRecord, SubmissionStatus } from "../shared";
+import { ILeetCodeWebviewOption, LeetCodeWebview } from "./LeetCodeWebview";
+import { markdownEngine } from "./markdownEngine";
+
+class LeetCodeHistoryProvider extends LeetCodeWebview {
+
+    protected readonly viewType: string = "leetcode.history";
+    private node: IProblem;
+    private records: ISubmissionRecord[];
+    private historyChangeListener: Disposable;
+
+    constructor() {
+        super();
+        this.historyChangeListener = historyManager.onDidChangeHistory(async (problemId: string) => {
+            if (this.panel && this.node && this.node.id === problemId) {
+                await this.show(this.node);
+            }
+        });
+    }
+
+    public async show(node: IProblem): Promise<void> {
+        this.node = node;
+        // Show the latest attempt first
+        this.records = (await historyManager.getRecords(node.id)).reverse();
+        this.showWebviewInternal();
+    }
+
+    public dispose(): void {
+        super.dispose();
+        this.historyChangeListener.dispose();
+    }
+
+    protected getWebviewOption(): ILeetCodeWebviewOption {
+        return {
+            title: `${this.node.name}: History`,
+            viewColumn: ViewColumn.One,
+        };
+    }
+
+    protected getWebviewContent(): string {
+        const head: string = markdownEngine.render(`# [${this.node.id}] ${this.node.name}`);
+        let body: string;
+        if (this.records.length === 0) {
+            body = markdownEngine.render("No submission has been recorded for this problem yet.");
+        } else {
+            const rows: string[] = this.records.map((record: ISubmissionRecord, index: number) => `
+                <tr>
+                    <td><input type="radio" name="left" value="${record.id}" ${index === 1 ? "checked" : ""}></td>
+                    <td><input type="radio" name="right" value="${record.id}" ${index === 0 ? "checked" : ""}></td>
+                    <td>${new Date(record.timestamp).toLocaleString()}</td>
+                    <td>${_.upperFirst(record.type)}</td>
+                    <td>${_.escape(record.language)}</td>
+                    <td class="${record.status === SubmissionStatus.Accepted ? "accepted" : "failed"}">${_.escape(record.status)}</td>
+                    <td>${_.escape(record.runtime || "-")}</td>
+                    <td>${_.escape(record.memory || "-")}</td>
+                    <td><a href="#" class="open" data-id="${record.id}">View</a></td>
+                </tr>
+            `);
+            body = `
+                <table>
+                    <thead>
+                        <tr>
+                            <th>A</th><th>B</th><th>Time</th><th>Type</th><th>Language</th><th>Verdict</th><th>Runtime</th><th>Memory</th><th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${rows.join("\n")}
+                    </tbody>
+                </table>
+                <button id="diff">Compare A with B</button>
+            `;
+        }
+        return `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https:; script-src vscode-resource: 'unsafe-inline'; style-src vscode-resource: 'unsafe-inline';"/>
+                ${markdownEngine.getStyles()}
+                <style>
+                    .accepted { color: var(--vscode-terminal-ansiGreen); }
+                    .failed { color: var(--vscode-terminal-ansiRed); }
+                    #diff {
+                        border: 0;
+                        margin: 1rem 0;
+                        padding: 0.2rem 1rem;
+                        color: white;
+                        background-color: var(--vscode-button-background);
+                    }
+                    #diff:hover {
+                        background-color: var(--vscode-button-hoverBackground);
+                    }
+                </style>
+            </head>
+            <body>
+                ${head}
+                ${body}
+                <script>
+                    const vscode = acquireVsCodeApi();
+                    const diffButton = document.getElementById('diff');
+                    if (diffButton) {
+                        diffButton.onclick = () => {
+                            const left = document.querySelector('input[name="left"]:checked');
+                            const right = document.querySelector('input[name="right"]:checked');
+                            if (left && right) {
+                                vscode.postMessage({ command: 'Diff', left: left.value, right: right.value });
+                            }
+                        };
+                    }
+                    for (const link of document.querySelectorAll('.open')) {
+                        link.onclick = () => vscode.postMessage({ command: 'Open', id: link.dataset.id });
+                    }
+                </script>
+            </body>
+            </html>
+        `;
+    }
+
+    protected onDidDisposeWebview(): void {
+        super.onDidDisposeWebview();
+        delete this.node;
+        delete this.records;
+    }
+
+    protected async onDidReceiveMessage(message: IWebViewMessage): Promise<void> {
+        switch (message.command) {
+            case "Diff": {
+                const left: ISubmissionRecord | undefined = this.findRecord(message.left);
+                const right: ISubmissionRecord | undefined = this.findRecord(message.right);
+                if (left && right) {
+                    await commands.executeCommand(
+                        "vscode.diff",
+                        historyDocumentProvider.getUri(left),
+                        historyDocumentProvider.getUri(right),
+                        `${this.node.name}: ${new Date(left.timestamp).toLocaleString()} ↔ ${new Date(right.timestamp).toLocaleString()}`,
+                    );
+                }
+                break;
+            }
+            case "Open": {
+                const record: ISubmissionRecord | undefined = this.findRecord(message.id);
+                if (record) {
+                    await commands.executeCommand("vscode.open", historyDocumentProvider.getUri(record));
+                }
+                break;
+            }
+        }
+    }
+
+    private findRecord(id: string | undefined): ISubmissionRecord | undefined {
+        return this.records.find((record: ISubmissionRecord) => record.id === id);
+    }
+}
+
+interface IWebViewMessage {
+    command: string;
+    id?: string;
+    left?: string;
+    right?: string;
+}
+
+export const leetCodeHistoryProvider: LeetCodeHistoryProvider = new LeetCodeHistoryProvider();
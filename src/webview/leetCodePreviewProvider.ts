@@ -1,9 +1,17 @@
 // Copyright (c) jdneo. All rights reserved.
 // Licensed under the MIT license.
 
+import * as _ from "lodash";
 import { commands, ViewColumn } from "vscode";
 import { getLeetCodeEndpoint } from "../commands/plugin";
-import { Endpoint, IProblem } from "../shared";
+import { addTestCaseOfProblem, testProblemWithTestCase } from "../commands/test";
+import { contestManager } from "../contest/contestManager";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { hintManager } from "../hints/hintManager";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { Endpoint, IDescription, IDescriptionExample, IProblem, ProblemState } from "../shared";
+import { parseDescription, parseTitleSlug } from "../utils/problemUtils";
 import { ILeetCodeWebviewOption, LeetCodeWebview } from "./LeetCodeWebview";
 import { markdownEngine } from "./markdownEngine";
 
@@ -11,7 +19,10 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
 
     protected readonly viewType: string = "leetcode.preview";
     private node: IProblem;
+    private descString: string;
     private description: IDescription;
+    private hints: string[] = [];
+    private similarNodes: LeetCodeNode[] = [];
     private sideMode: boolean = false;
 
     public isSideMode(): boolean {
@@ -19,10 +30,15 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
     }
 
     public show(descString: string, node: IProblem, isSideMode: boolean = false): void {
-        this.description = this.parseDescription(descString, node);
+        this.description = parseDescription(descString, node);
+        this.descString = descString;
         this.node = node;
         this.sideMode = isSideMode;
+        this.hints = [];
+        this.similarNodes = [];
         this.showWebviewInternal();
+        this.loadHints(descString, node);
+        this.loadSimilarProblems(descString, node);
         // Comment out this operation since it sometimes may cause the webview become empty.
         // Waiting for the progress of the VS Code side issue: https://github.com/microsoft/vscode/issues/3742
         // if (this.sideMode) {
@@ -30,6 +46,17 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
         // }
     }
 
+    // Re-render the shown problem, e.g. the hints are hidden once a virtual contest starts
+    public refresh(): void {
+        if (!this.panel) {
+            return;
+        }
+        this.panel.webview.html = this.getWebviewContent();
+        if (this.hints.length === 0) {
+            this.loadHints(this.descString, this.node);
+        }
+    }
+
     protected getWebviewOption(): ILeetCodeWebviewOption {
         if (!this.sideMode) {
             return {
@@ -71,7 +98,8 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
                 }
                 </style>`,
         };
-        const { title, url, category, difficulty, likes, dislikes, body } = this.description;
+        const { title, url, category, difficulty, likes, dislikes } = this.description;
+        const body: string = this.getBodyWithExampleActions();
         const head: string = markdownEngine.render(`# [${title}](${url})`);
         const info: string = markdownEngine.render([
             `| Category | Difficulty | Likes | Dislikes |`,
@@ -98,7 +126,10 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
             ),
             `</details>`,
         ].join("\n");
-        const links: string = markdownEngine.render(`[Discussion](${this.getDiscussionLink(url)}) | [Solution](${this.getSolutionLink(url)})`);
+        // The discussions and the solutions are hidden during the virtual contest
+        const links: string = contestManager.isRunning()
+            ? ""
+            : markdownEngine.render(`[Discussion](${this.getDiscussionLink(url)}) | [Solution](${this.getSolutionLink(url)})`);
         return `
             <!DOCTYPE html>
             <html>
@@ -108,6 +139,16 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
                 ${!this.sideMode ? button.style : ""}
                 <style>
                     code { white-space: pre-wrap; }
+                    .example-actions button, #reveal-hint {
+                        border: 0;
+                        margin: 0.2rem 0.5rem 0.2rem 0;
+                        padding: 0.2rem 0.8rem;
+                        color: var(--vscode-button-foreground);
+                        background-color: var(--vscode-button-background);
+                    }
+                    .example-actions button:hover, #reveal-hint:hover {
+                        background-color: var(--vscode-button-hoverBackground);
+                    }
                 </style>
             </head>
             <body>
@@ -116,12 +157,40 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
                 ${tags}
                 ${companies}
                 ${body}
+                ${this.getHintsSection()}
+                ${this.getSimilarProblemsSection()}
                 <hr />
                 ${links}
                 ${!this.sideMode ? button.element : ""}
                 <script>
                     const vscode = acquireVsCodeApi();
                     ${!this.sideMode ? button.script : ""}
+                    const revealButton = document.getElementById('reveal-hint');
+                    if (revealButton) {
+                        revealButton.onclick = () => {
+                            const hidden = document.querySelectorAll('#hints li[hidden]');
+                            if (hidden.length > 0) {
+                                hidden[0].hidden = false;
+                                vscode.postMessage({
+                                    command: 'RevealHint',
+                                    count: document.querySelectorAll('#hints li').length - hidden.length + 1,
+                                });
+                            }
+                            revealButton.hidden = hidden.length <= 1;
+                        };
+                    }
+                    document.querySelectorAll('#similar-problems a').forEach((element) => {
+                        element.onclick = () => vscode.postMessage({
+                            command: 'PreviewProblem',
+                            problemId: element.dataset.problemId,
+                        });
+                    });
+                    document.querySelectorAll('.example-actions button').forEach((element) => {
+                        element.onclick = () => vscode.postMessage({
+                            command: element.dataset.command,
+                            index: Number(element.dataset.index),
+                        });
+                    });
                 </script>
             </body>
             </html>
@@ -131,7 +200,10 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
     protected onDidDisposeWebview(): void {
         super.onDidDisposeWebview();
         delete this.node;
+        delete this.descString;
         delete this.description;
+        this.hints = [];
+        this.similarNodes = [];
         this.sideMode = false;
     }
 
@@ -141,6 +213,31 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
                 await commands.executeCommand("leetcode.showProblem", this.node);
                 break;
             }
+            case "PreviewProblem": {
+                const node: LeetCodeNode | undefined = explorerNodeManager.getNodeById(message.problemId || "");
+                if (node) {
+                    await commands.executeCommand("leetcode.previewProblem", node);
+                }
+                break;
+            }
+            case "RevealHint": {
+                await hintManager.reveal(this.node.id, message.count || 0);
+                break;
+            }
+            case "AddTestCase": {
+                const example: IDescriptionExample | undefined = this.description.examples[message.index || 0];
+                if (example) {
+                    await addTestCaseOfProblem(this.node, example.input);
+                }
+                break;
+            }
+            case "RunTestCase": {
+                const example: IDescriptionExample | undefined = this.description.examples[message.index || 0];
+                if (example) {
+                    await testProblemWithTestCase(this.node, example.input);
+                }
+                break;
+            }
         }
     }
 
@@ -149,34 +246,6 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
     //     await commands.executeCommand("workbench.action.toggleSidebarVisibility");
     // }
 
-    private parseDescription(descString: string, problem: IProblem): IDescription {
-        const [
-            /* title */, ,
-            url, ,
-            /* tags */, ,
-            /* langs */, ,
-            category,
-            difficulty,
-            likes,
-            dislikes,
-            /* accepted */,
-            /* submissions */,
-            /* testcase */, ,
-            ...body
-        ] = descString.split("\n");
-        return {
-            title: problem.name,
-            url,
-            tags: problem.tags,
-            companies: problem.companies,
-            category: category.slice(2),
-            difficulty: difficulty.slice(2),
-            likes: likes.split(": ")[1].trim(),
-            dislikes: dislikes.split(": ")[1].trim(),
-            body: body.join("\n").replace(/<pre>[\r\n]*([^]+?)[\r\n]*<\/pre>/g, "<pre><code>$1</code></pre>"),
-        };
-    }
-
     private getDiscussionLink(url: string): string {
         const endPoint: string = getLeetCodeEndpoint();
         if (endPoint === Endpoint.LeetCodeCN) {
@@ -191,22 +260,86 @@ class LeetCodePreviewProvider extends LeetCodeWebview {
     private getSolutionLink(url: string): string {
         return url.replace("/description/", "/solution/");
     }
-}
 
-interface IDescription {
-    title: string;
-    url: string;
-    tags: string[];
-    companies: string[];
-    category: string;
-    difficulty: string;
-    likes: string;
-    dislikes: string;
-    body: string;
+    // The hints are fetched after the preview is shown, since they are not in the description printed by the CLI
+    private async loadHints(descString: string, node: IProblem): Promise<void> {
+        if (contestManager.isRunning()) {
+            return;
+        }
+        try {
+            const hints: string[] = await hintManager.getHints(parseTitleSlug(descString));
+            if (this.panel && this.node === node && hints.length > 0) {
+                this.hints = hints;
+                this.panel.webview.html = this.getWebviewContent();
+            }
+        } catch (error) {
+            leetCodeChannel.appendLine(`Failed to fetch the hints of ${node.name}: ${error}`);
+        }
+    }
+
+    private async loadSimilarProblems(descString: string, node: IProblem): Promise<void> {
+        const similarNodes: LeetCodeNode[] = await explorerNodeManager.getSimilarNodes(node.id, parseTitleSlug(descString));
+        if (this.panel && this.node === node && similarNodes.length > 0) {
+            this.similarNodes = similarNodes;
+            this.panel.webview.html = this.getWebviewContent();
+        }
+    }
+
+    private getSimilarProblemsSection(): string {
+        if (this.similarNodes.length === 0) {
+            return "";
+        }
+        const items: string[] = this.similarNodes.map((node: LeetCodeNode) => {
+            const state: string = node.state === ProblemState.AC ? " ✔" : (node.state === ProblemState.NotAC ? " ✘" : "");
+            return `<li><a href="#" data-problem-id="${node.id}">[${node.id}] ${_.escape(node.name)}</a> (${node.difficulty})${state}</li>`;
+        });
+        return [
+            markdownEngine.render("### Similar Problems"),
+            `<ul id="similar-problems">${items.join("")}</ul>`,
+        ].join("\n");
+    }
+
+    // The hints are revealed one at a time, and hidden during the virtual contest
+    private getHintsSection(): string {
+        if (contestManager.isRunning() || this.hints.length === 0) {
+            return "";
+        }
+        const revealed: number = Math.min(hintManager.getRevealedCount(this.node.id), this.hints.length);
+        const items: string[] = this.hints.map((hint: string, index: number) => `<li${index >= revealed ? " hidden" : ""}>${hint}</li>`);
+        return [
+            markdownEngine.render("### Hints"),
+            `<ol id="hints">${items.join("")}</ol>`,
+            `<button id="reveal-hint"${revealed >= this.hints.length ? " hidden" : ""}>Show Hint</button>`,
+        ].join("\n");
+    }
+
+    // Insert the buttons after the heading of each parsed example
+    private getBodyWithExampleActions(): string {
+        let index: number = -1;
+        return this.description.body.replace(/<strong[^>]*>\s*Example\s*\d*\s*:?\s*<\/strong>(\s*<\/p>)?/gi, (heading: string) => {
+            index++;
+            if (!this.description.examples[index]) {
+                return heading;
+            }
+            const actions: string = [
+                `<div class="example-actions">`,
+                `<button data-command="AddTestCase" data-index="${index}">Add to Test Cases</button>`,
+                `<button data-command="RunTestCase" data-index="${index}">Run</button>`,
+                `</div>`,
+            ].join("");
+            return `${heading}${actions}`;
+        });
+    }
 }
 
 interface IWebViewMessage {
     command: string;
+    // The index of the example for the "AddTestCase" and "RunTestCase" commands
+    index?: number;
+    // The number of the revealed hints for the "RevealHint" command
+    count?: number;
+    // The problem to preview for the "PreviewProblem" command
+    problemId?: string;
 }
 
 export const leetCodePreviewProvider: LeetCodePreviewProvider = new LeetCodePreviewProvider();
@@ -1,7 +1,14 @@
 // Copyright (c) jdneo. All rights reserved.
 // Licensed under the MIT license.
 
-import { ViewColumn } from "vscode";
+import * as _ from "lodash";
+import { Position, TextDocument, Uri, ViewColumn, window, workspace, WorkspaceEdit } from "vscode";
+import { leetCodeClient } from "../client/leetCodeClient";
+import { leetCodeChannel } from "../leetCodeChannel";
+import { ISolution, ISolutionQuery, languages, SolutionOrder } from "../shared";
+import { genFileExt } from "../utils/problemUtils";
+import { getSolutionCount } from "../utils/settingUtils";
+import { DialogType, promptForOpenOutputChannel } from "../utils/uiUtils";
 import { leetCodePreviewProvider } from "./leetCodePreviewProvider";
 import { ILeetCodeWebviewOption, LeetCodeWebview } from "./LeetCodeWebview";
 import { markdownEngine } from "./markdownEngine";
@@ -10,10 +17,25 @@ class LeetCodeSolutionProvider extends LeetCodeWebview {
 
     protected readonly viewType: string = "leetcode.solution";
     private problemName: string;
-    private solution: Solution;
+    private solutions: ISolution[] = [];
+    private index: number = 0;
+    private codeOnly: boolean = false;
+    // The query of the solutions from the discussions, which is undefined for the single solution from the CLI
+    private query: ISolutionQuery | undefined;
 
     public show(solutionString: string): void {
-        this.solution = this.parseSolution(solutionString);
+        this.query = undefined;
+        this.solutions = [this.parseSolution(solutionString)];
+        this.index = 0;
+        this.showWebviewInternal();
+    }
+
+    public async showSolutions(query: ISolutionQuery): Promise<void> {
+        const solutions: ISolution[] = await leetCodeClient.getSolutions(query, getSolutionCount());
+        this.query = query;
+        this.problemName = query.problemName;
+        this.solutions = solutions;
+        this.index = 0;
         this.showWebviewInternal();
     }
 
@@ -34,29 +56,58 @@ class LeetCodeSolutionProvider extends LeetCodeWebview {
 
     protected getWebviewContent(): string {
         const styles: string = markdownEngine.getStyles();
-        const { title, url, lang, author, votes } = this.solution;
-        const head: string = markdownEngine.render(`# [${title}](${url})`);
-        const auth: string = `[${author}](https://leetcode.com/${author}/)`;
-        const info: string = markdownEngine.render([
-            `| Language |  Author  |  Votes   |`,
-            `| :------: | :------: | :------: |`,
-            `| ${lang}  | ${auth}  | ${votes} |`,
-        ].join("\n"));
-        const body: string = markdownEngine.render(this.solution.body, {
-            lang: this.solution.lang,
-            host: "https://discuss.leetcode.com/",
-        });
+        const solution: ISolution | undefined = this.solutions[this.index];
+        let content: string;
+        if (solution) {
+            const { title, url, lang, author, votes, date } = solution;
+            const head: string = markdownEngine.render(`# [${title}](${url})`);
+            const auth: string = `[${author}](https://leetcode.com/${author}/)`;
+            const info: string = markdownEngine.render([
+                `| Language |  Author  |  Votes   |  Date  |`,
+                `| :------: | :------: | :------: | :----: |`,
+                `| ${lang}  | ${auth}  | ${votes} | ${date || "-"} |`,
+            ].join("\n"));
+            const body: string = markdownEngine.render(this.codeOnly ? this.getCodeBlocks(solution).join("\n\n") : solution.body, {
+                lang: solution.lang,
+                host: "https://discuss.leetcode.com/",
+            });
+            content = `${head}${info}${body}`;
+        } else {
+            content = markdownEngine.render("No solution is found, please try another language.");
+        }
         return `
             <!DOCTYPE html>
             <html>
             <head>
-                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https:; script-src vscode-resource:; style-src vscode-resource:;"/>
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https:; script-src vscode-resource: 'unsafe-inline'; style-src vscode-resource: 'unsafe-inline';"/>
                 ${styles}
+                <style>
+                    .toolbar { display: flex; flex-wrap: wrap; align-items: center; margin: 1rem 0; }
+                    .toolbar > * { margin: 0.2rem 0.5rem 0.2rem 0; }
+                    .toolbar button {
+                        border: 0;
+                        padding: 0.2rem 0.8rem;
+                        color: var(--vscode-button-foreground);
+                        background-color: var(--vscode-button-background);
+                    }
+                    .toolbar button:hover { background-color: var(--vscode-button-hoverBackground); }
+                    .toolbar button:disabled { opacity: 0.5; }
+                </style>
             </head>
             <body class="vscode-body 'scrollBeyondLastLine' 'wordWrap' 'showEditorSelection'" style="tab-size:4">
-                ${head}
-                ${info}
-                ${body}
+                ${this.getToolbar()}
+                ${content}
+                <script>
+                    const vscode = acquireVsCodeApi();
+                    document.querySelectorAll('[data-command]').forEach((element) => {
+                        const post = () => vscode.postMessage({ command: element.dataset.command, value: element.value });
+                        if (element.tagName === 'SELECT') {
+                            element.onchange = post;
+                        } else {
+                            element.onclick = post;
+                        }
+                    });
+                </script>
             </body>
             </html>
         `;
@@ -64,13 +115,114 @@ class LeetCodeSolutionProvider extends LeetCodeWebview {
 
     protected onDidDisposeWebview(): void {
         super.onDidDisposeWebview();
-        delete this.solution;
+        this.solutions = [];
+        this.query = undefined;
+        this.codeOnly = false;
+    }
+
+    protected async onDidReceiveMessage(message: IWebViewMessage): Promise<void> {
+        switch (message.command) {
+            case "Previous":
+            case "Next": {
+                this.index = _.clamp(this.index + (message.command === "Next" ? 1 : -1), 0, Math.max(this.solutions.length - 1, 0));
+                this.render();
+                break;
+            }
+            case "ToggleCodeOnly": {
+                this.codeOnly = !this.codeOnly;
+                this.render();
+                break;
+            }
+            case "ChangeLanguage":
+            case "ChangeOrder": {
+                if (!this.query || !message.value) {
+                    break;
+                }
+                const query: ISolutionQuery = message.command === "ChangeLanguage"
+                    ? { ...this.query, language: message.value }
+                    : { ...this.query, order: message.value as SolutionOrder };
+                try {
+                    await this.showSolutions(query);
+                } catch (error) {
+                    leetCodeChannel.appendLine(error.toString());
+                    await promptForOpenOutputChannel("Failed to fetch the solutions. Please open the output channel for details.", DialogType.error);
+                }
+                break;
+            }
+            case "InsertIntoScratchFile": {
+                await this.insertIntoScratchFile();
+                break;
+            }
+        }
+    }
+
+    private render(): void {
+        if (this.panel) {
+            this.panel.webview.html = this.getWebviewContent();
+        }
+    }
+
+    private getToolbar(): string {
+        const solution: ISolution | undefined = this.solutions[this.index];
+        const elements: string[] = [];
+        if (this.query) {
+            const query: ISolutionQuery = this.query;
+            elements.push(
+                `<select data-command="ChangeLanguage">`,
+                ...languages.map((lang: string) => `<option value="${lang}"${lang === query.language ? " selected" : ""}>${lang}</option>`),
+                `</select>`,
+                `<select data-command="ChangeOrder">`,
+                `<option value="${SolutionOrder.Votes}"${query.order === SolutionOrder.Votes ? " selected" : ""}>Most Votes</option>`,
+                `<option value="${SolutionOrder.Recent}"${query.order === SolutionOrder.Recent ? " selected" : ""}>Most Recent</option>`,
+                `</select>`,
+                `<button data-command="Previous"${this.index <= 0 ? " disabled" : ""}>Previous</button>`,
+                `<span>${this.solutions.length ? this.index + 1 : 0} / ${this.solutions.length}</span>`,
+                `<button data-command="Next"${this.index >= this.solutions.length - 1 ? " disabled" : ""}>Next</button>`,
+            );
+        }
+        if (solution) {
+            elements.push(
+                `<button data-command="ToggleCodeOnly">${this.codeOnly ? "Show Full Post" : "Show Code Only"}</button>`,
+                `<button data-command="InsertIntoScratchFile">Insert into Scratch File</button>`,
+            );
+        }
+        return `<div class="toolbar">${elements.join("")}</div>`;
+    }
+
+    // The fenced code blocks in the post, the whole post is regarded as code if there is no code block
+    private getCodeBlocks(solution: ISolution): string[] {
+        const blocks: string[] = solution.body.match(/```[^\n]*\n[^]*?```/g) || [];
+        return blocks.length > 0 ? blocks : ["```" + solution.lang + "\n" + solution.body + "\n```"];
+    }
+
+    // Append the code of the current solution to an untitled file, which can be saved to experiment with it locally
+    private async insertIntoScratchFile(): Promise<void> {
+        const solution: ISolution | undefined = this.solutions[this.index];
+        if (!solution) {
+            return;
+        }
+        const code: string = this.getCodeBlocks(solution)
+            .map((block: string) => block.replace(/^```[^\n]*\n/, "").replace(/\n?```$/, ""))
+            .join("\n\n");
+        let ext: string = "txt";
+        try {
+            ext = genFileExt(solution.lang);
+        } catch (error) {
+            // Fallback to the plain text for the unknown language
+        }
+        const uri: Uri = Uri.parse(`untitled:${_.kebabCase(this.problemName)}.scratch.${ext}`);
+        const document: TextDocument = await workspace.openTextDocument(uri);
+        const edit: WorkspaceEdit = new WorkspaceEdit();
+        const end: Position = document.lineAt(document.lineCount - 1).range.end;
+        edit.insert(uri, end, `${document.getText().trim() ? "\n\n" : ""}${code}\n`);
+        await workspace.applyEdit(edit);
+        await window.showTextDocument(document, { viewColumn: ViewColumn.Beside, preview: false });
     }
 
-    private parseSolution(raw: string): Solution {
+    private parseSolution(raw: string): ISolution {
         raw = raw.slice(1); // skip first empty line
         [this.problemName, raw] = raw.split(/\n\n([^]+)/); // parse problem name and skip one line
-        const solution: Solution = new Solution();
+        const solution: ISolution = { title: "", url: "", lang: "", author: "", votes: "", body: "" };
         // [^] matches everything including \n, yet can be replaced by . in ES2018's `m` flag
         [solution.title, raw] = raw.split(/\n\n([^]+)/);
         [solution.url, raw] = raw.split(/\n\n([^]+)/);
@@ -82,14 +234,10 @@ class LeetCodeSolutionProvider extends LeetCodeWebview {
     }
 }
 
-// tslint:disable-next-line:max-classes-per-file
-class Solution {
-    public title: string = "";
-    public url: string = "";
-    public lang: string = "";
-    public author: string = "";
-    public votes: string = "";
-    public body: string = ""; // Markdown supported
+interface IWebViewMessage {
+    command: string;
+    // The selected value of the "ChangeLanguage" and "ChangeOrder" commands
+    value?: string;
 }
 
 export const leetCodeSolutionProvider: LeetCodeSolutionProvider = new LeetCodeSolutionProvider();
@@ -0,0 +1,192 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as _ from "lodash";
+import { ViewColumn } from "vscode";
+import { explorerNodeManager } from "../explorer/explorerNodeManager";
+import { LeetCodeNode } from "../explorer/LeetCodeNode";
+import { hintManager } from "../hints/hintManager";
+import { historyManager } from "../history/historyManager";
+import { ISubmissionRecord, ProblemState, SubmissionType } from "../shared";
+import { ILeetCodeWebviewOption, LeetCodeWebview } from "./LeetCodeWebview";
+import { markdownEngine } from "./markdownEngine";
+
+const topCategoryCount: number = 10;
+const heatmapWeeks: number = 53;
+
+class LeetCodeStatisticsProvider extends LeetCodeWebview {
+
+    protected readonly viewType: string = "leetcode.statistics";
+    private nodes: LeetCodeNode[];
+    private records: ISubmissionRecord[];
+
+    public async show(): Promise<void> {
+        this.nodes = explorerNodeManager.getAllNodes(true /* includeHidden */);
+        this.records = await historyManager.getAllRecords();
+        this.showWebviewInternal();
+    }
+
+    protected getWebviewOption(): ILeetCodeWebviewOption {
+        return {
+            title: "LeetCode Statistics",
+            viewColumn: ViewColumn.One,
+        };
+    }
+
+    protected getWebviewContent(): string {
+        const head: string = markdownEngine.render("# Statistics");
+        let body: string;
+        if (this.nodes.length === 0) {
+            body = markdownEngine.render("The problem list is empty, please sign in and refresh the explorer first.");
+        } else {
+            body = [
+                markdownEngine.render("## Difficulty"),
+                this.getDifficultyTable(),
+                markdownEngine.render(`## Top ${topCategoryCount} Tags`),
+                this.getCoverageTable((node: LeetCodeNode) => node.tags, "Tag"),
+                markdownEngine.render(`## Top ${topCategoryCount} Companies`),
+                this.getCoverageTable((node: LeetCodeNode) => node.companies, "Company"),
+                markdownEngine.render("## Hints"),
+                this.getHintTable(),
+                markdownEngine.render("## Activity"),
+                this.getHeatmap(),
+            ].join("\n");
+        }
+        return `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https:; script-src vscode-resource:; style-src vscode-resource: 'unsafe-inline';"/>
+                ${markdownEngine.getStyles()}
+                <style>
+                    .bar { display: inline-block; width: 10rem; height: 0.6rem; background-color: var(--vscode-input-background); }
+                    .bar > div { height: 100%; background-color: var(--vscode-terminal-ansiGreen); }
+                    .heatmap { display: flex; }
+                    .heatmap .week { display: flex; flex-direction: column; }
+                    .heatmap .day { width: 10px; height: 10px; margin: 1px; background-color: var(--vscode-terminal-ansiGreen); }
+                    .heatmap .day.empty { background-color: var(--vscode-input-background); }
+                </style>
+            </head>
+            <body>
+                ${head}
+                ${body}
+            </body>
+            </html>
+        `;
+    }
+
+    protected onDidDisposeWebview(): void {
+        super.onDidDisposeWebview();
+        delete this.nodes;
+        delete this.records;
+    }
+
+    private getDifficultyTable(): string {
+        const rows: string[] = ["Easy", "Medium", "Hard"].map((difficulty: string) => {
+            return this.getCoverageRow(difficulty, this.nodes.filter((node: LeetCodeNode) => node.difficulty === difficulty));
+        });
+        rows.push(this.getCoverageRow("Total", this.nodes));
+        return this.getTable("Difficulty", rows);
+    }
+
+    // The accepted problems solved with or without revealing any hint in the preview
+    private getHintTable(): string {
+        const rows: string[] = ["Easy", "Medium", "Hard"].map((difficulty: string) => {
+            const accepted: LeetCodeNode[] = this.nodes.filter((node: LeetCodeNode) => node.difficulty === difficulty && node.state === ProblemState.AC);
+            const assisted: number = accepted.filter((node: LeetCodeNode) => hintManager.isAssisted(node.id, this.records)).length;
+            return `<tr><td>${difficulty}</td><td>${accepted.length - assisted}</td><td>${assisted}</td></tr>`;
+        });
+        return `
+            <table>
+                <thead>
+                    <tr><th>Difficulty</th><th>Unaided</th><th>Hint-assisted</th></tr>
+                </thead>
+                <tbody>
+                    ${rows.join("\n")}
+                </tbody>
+            </table>
+        `;
+    }
+
+    private getCoverageTable(getKeys: (node: LeetCodeNode) => string[], title: string): string {
+        const groups: { [key: string]: LeetCodeNode[] } = {};
+        for (const node of this.nodes) {
+            for (const key of getKeys(node)) {
+                if (key !== "Unknown") {
+                    (groups[key] = groups[key] || []).push(node);
+                }
+            }
+        }
+        // Ranked by the solved count, the larger category goes first if tied
+        const rows: string[] = _.sortBy(Object.keys(groups), [
+            (key: string): number => -getAcceptedCount(groups[key]),
+            (key: string): number => -groups[key].length,
+        ])
+            .slice(0, topCategoryCount)
+            .map((key: string) => this.getCoverageRow(_.startCase(key), groups[key]));
+        return this.getTable(title, rows);
+    }
+
+    private getCoverageRow(name: string, nodes: LeetCodeNode[]): string {
+        const accepted: number = getAcceptedCount(nodes);
+        const percentage: number = nodes.length ? accepted * 100 / nodes.length : 0;
+        return `
+            <tr>
+                <td>${_.escape(name)}</td>
+                <td>${accepted} / ${nodes.length}</td>
+                <td>${percentage.toFixed(1)}%</td>
+                <td><div class="bar"><div style="width: ${percentage}%"></div></div></td>
+            </tr>
+        `;
+    }
+
+    private getTable(title: string, rows: string[]): string {
+        return `
+            <table>
+                <thead>
+                    <tr><th>${title}</th><th>Solved</th><th>Coverage</th><th></th></tr>
+                </thead>
+                <tbody>
+                    ${rows.join("\n")}
+                </tbody>
+            </table>
+        `;
+    }
+
+    // A GitHub-like heatmap of the local submissions in the past year, each column is a week. The test runs are not counted
+    private getHeatmap(): string {
+        const start: Date = new Date();
+        start.setHours(0, 0, 0, 0);
+        start.setDate(start.getDate() - start.getDay() - (heatmapWeeks - 1) * 7);
+        const submissions: ISubmissionRecord[] = this.records.filter((record: ISubmissionRecord) => {
+            return record.type === SubmissionType.Submit && record.timestamp >= start.getTime();
+        });
+        const counts: { [date: string]: number } = _.countBy(submissions, (record: ISubmissionRecord) => new Date(record.timestamp).toDateString());
+        const maxCount: number = Math.max(1, ..._.values(counts));
+
+        const weeks: string[] = [];
+        for (let week: number = 0; week < heatmapWeeks; week++) {
+            const days: string[] = [];
+            for (let day: number = 0; day < 7; day++) {
+                const date: Date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + day);
+                if (date.getTime() > Date.now()) {
+                    break;
+                }
+                const count: number = counts[date.toDateString()] || 0;
+                const style: string = count ? `style="opacity: ${(0.3 + 0.7 * count / maxCount).toFixed(2)}"` : "";
+                days.push(`<div class="day ${count ? "" : "empty"}" ${style} title="${date.toDateString()}: ${count} submission(s)"></div>`);
+            }
+            weeks.push(`<div class="week">${days.join("")}</div>`);
+        }
+        return `
+            <div class="heatmap">${weeks.join("")}</div>
+            ${markdownEngine.render(`${submissions.length} local submission(s) in the past year, active on ${Object.keys(counts).length} day(s).`)}
+        `;
+    }
+}
+
+function getAcceptedCount(nodes: LeetCodeNode[]): number {
+    return nodes.filter((node: LeetCodeNode) => node.state === ProblemState.AC).length;
+}
+
+export const leetCodeStatisticsProvider: LeetCodeStatisticsProvider = new LeetCodeStatisticsProvider();
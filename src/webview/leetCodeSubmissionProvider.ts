@@ -2,6 +2,7 @@
 // Licensed under the MIT license.
 
 import { ViewColumn } from "vscode";
+import { ISubmissionResult, SubmissionStatus } from "../shared";
 import { openKeybindingsEditor, promptHintMessage } from "../utils/uiUtils";
 import { ILeetCodeWebviewOption, LeetCodeWebview } from "./LeetCodeWebview";
 import { markdownEngine } from "./markdownEngine";
@@ -9,10 +10,10 @@ import { markdownEngine } from "./markdownEngine";
 class LeetCodeSubmissionProvider extends LeetCodeWebview {
 
     protected readonly viewType: string = "leetcode.submission";
-    private result: IResult;
+    private result: ISubmissionResult;
 
-    public show(resultString: string): void {
-        this.result = this.parseResult(resultString);
+    public show(result: ISubmissionResult): void {
+        this.result = result;
         this.showWebviewInternal();
         this.showKeybindingsHint();
     }
@@ -26,19 +27,23 @@ class LeetCodeSubmissionProvider extends LeetCodeWebview {
 
     protected getWebviewContent(): string {
         const styles: string = markdownEngine.getStyles();
-        const title: string = `## ${this.result.messages[0]}`;
-        const messages: string[] = this.result.messages.slice(1).map((m: string) => `* ${m}`);
-        const sections: string[] = Object.keys(this.result)
-            .filter((key: string) => key !== "messages")
+        const { status, details } = this.result;
+        let messages: string[] = this.result.messages;
+        let title: string = `## ${status}`;
+        if (status === SubmissionStatus.Unknown || messages[0] === status) {
+            title = `## ${messages[0] || status}`;
+            messages = messages.slice(1);
+        }
+        const sections: string[] = Object.keys(details)
             .map((key: string) => [
                 `### ${key}`,
                 "```",
-                this.result[key].join("\n"),
+                details[key].join("\n"),
                 "```",
             ].join("\n"));
         const body: string = markdownEngine.render([
             title,
-            ...messages,
+            ...messages.map((m: string) => `* ${m}`),
             ...sections,
         ].join("\n"));
         return `
@@ -70,38 +75,6 @@ class LeetCodeSubmissionProvider extends LeetCodeWebview {
             (): Promise<any> => openKeybindingsEditor("leetcode solution"),
         );
     }
-
-    private parseResult(raw: string): IResult {
-        raw = raw.concat("  √ "); // Append a dummy sentinel to the end of raw string
-        const regSplit: RegExp = /  [√×✔✘vx] ([^]+?)\n(?=  [√×✔✘vx] )/g;
-        const regKeyVal: RegExp = /(.+?): ([^]*)/;
-        const result: IResult = { messages: [] };
-        let entry: RegExpExecArray | null;
-        do {
-            entry = regSplit.exec(raw);
-            if (!entry) {
-                continue;
-            }
-            const kvMatch: RegExpExecArray | null = regKeyVal.exec(entry[1]);
-            if (kvMatch) {
-                const [key, value] = kvMatch.slice(1);
-                if (value) { // Do not show empty string
-                    if (!result[key]) {
-                        result[key] = [];
-                    }
-                    result[key].push(value);
-                }
-            } else {
-                result.messages.push(entry[1]);
-            }
-        } while (entry);
-        return result;
-    }
-}
-
-interface IResult {
-    [key: string]: string[];
-    messages: string[];
 }
 
 export const leetCodeSubmissionProvider: LeetCodeSubmissionProvider = new LeetCodeSubmissionProvider();
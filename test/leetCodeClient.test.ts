@@ -0,0 +1,281 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as assert from "assert";
+import * as http from "http";
+import { ICheckResponse, IQuestionDetail, LeetCodeClient } from "../src/client/leetCodeClient";
+import { IHttpRequest, IHttpResponse, NodeTransport } from "../src/client/transport";
+import { IProblem, ISubmissionResult, ProblemState, SubmissionStatus } from "../src/shared";
+
+interface IFakeRequest {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+// A local server which plays the LeetCode endpoints, the handler returns the JSON to respond, or undefined to never respond
+type FakeHandler = (request: IFakeRequest) => {} | undefined;
+
+// The typings of Node.js 7 don't have "assert.rejects"
+async function assertRejects(promise: Promise<{}>, message: RegExp): Promise<void> {
+    try {
+        await promise;
+    } catch (error) {
+        assert.ok(message.test(error.message), error.message);
+        return;
+    }
+    assert.fail(undefined, message, "Missing the expected rejection", "rejects");
+}
+
+const question: IQuestionDetail = {
+    questionId: "1",
+    questionFrontendId: "1",
+    title: "Two Sum",
+    titleSlug: "two-sum",
+    content: "<p>Given an array of integers...</p>",
+    difficulty: "Easy",
+    likes: 100,
+    dislikes: 5,
+    isPaidOnly: false,
+    exampleTestcases: "[2,7,11,15]\n9",
+    sampleTestCase: "[2,7,11,15]\n9",
+    codeSnippets: [{ lang: "JavaScript", langSlug: "javascript", code: "var twoSum = function(nums, target) {\n};" }],
+    topicTags: [{ name: "Array", slug: "array" }],
+    hints: ["Use a hash map."],
+    similarQuestions: "[]",
+};
+
+const problemList: {} = {
+    stat_status_pairs: [
+        {
+            stat: { frontend_question_id: 2, question__title: "Add Two Numbers", question__title_slug: "add-two-numbers", total_acs: 1, total_submitted: 4 },
+            difficulty: { level: 2 },
+            paid_only: false,
+            is_favor: true,
+            status: "notac",
+        },
+        {
+            stat: { frontend_question_id: 1, question__title: "Two Sum", question__title_slug: "two-sum", total_acs: 1, total_submitted: 2 },
+            difficulty: { level: 1 },
+            paid_only: false,
+            is_favor: false,
+            status: "ac",
+        },
+    ],
+};
+
+suite("LeetCodeClient", () => {
+    let server: http.Server;
+    let serverUrl: string;
+    let handler: FakeHandler;
+    let requests: IFakeRequest[];
+    let client: LeetCodeClient;
+
+    suiteSetup((done: MochaDone) => {
+        server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+            const chunks: Buffer[] = [];
+            req.on("data", (chunk: Buffer) => chunks.push(chunk));
+            req.on("end", () => {
+                const request: IFakeRequest = { method: req.method || "", url: req.url || "", headers: req.headers, body: Buffer.concat(chunks).toString("utf8") };
+                requests.push(request);
+                const data: {} | undefined = handler(request);
+                if (data === undefined) {
+                    return; // Stall the connection
+                }
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify(data));
+            });
+        });
+        server.listen(0, "127.0.0.1", () => {
+            serverUrl = `http://127.0.0.1:${server.address().port}`;
+            done();
+        });
+    });
+
+    suiteTeardown((done: MochaDone) => {
+        server.close(() => done());
+    });
+
+    setup(() => {
+        requests = [];
+        handler = (): {} => ({});
+        const transport: NodeTransport = new NodeTransport();
+        // The real transport, with the requests to LeetCode redirected to the local server
+        client = new LeetCodeClient({
+            request: (request: IHttpRequest): Promise<IHttpResponse> => transport.request(Object.assign({}, request, {
+                url: request.url.replace(client.baseUrl, serverUrl),
+            })),
+        });
+        client.setCredentials({ session: "session-value", csrfToken: "csrf-value" });
+    });
+
+    test("listProblems", async () => {
+        handler = (request: IFakeRequest): {} => {
+            assert.strictEqual(`${request.method} ${request.url}`, "GET /api/problems/all/");
+            return problemList;
+        };
+        const problems: IProblem[] = await client.listProblems();
+        assert.deepStrictEqual(problems, [
+            {
+                id: "1",
+                name: "Two Sum",
+                difficulty: "Easy",
+                passRate: "50.0 %",
+                locked: false,
+                isFavorite: false,
+                state: ProblemState.AC,
+                companies: ["Unknown"],
+                tags: ["Unknown"],
+            },
+            {
+                id: "2",
+                name: "Add Two Numbers",
+                difficulty: "Medium",
+                passRate: "25.0 %",
+                locked: false,
+                isFavorite: true,
+                state: ProblemState.NotAC,
+                companies: ["Unknown"],
+                tags: ["Unknown"],
+            },
+        ]);
+        assert.strictEqual(requests[0].headers.cookie, "LEETCODE_SESSION=session-value; csrftoken=csrf-value");
+        assert.strictEqual(requests[0].headers["x-csrftoken"], "csrf-value");
+        assert.strictEqual(await client.getTitleSlug("2"), "add-two-numbers");
+        assert.strictEqual(requests.length, 1);
+    });
+
+    test("getQuestion", async () => {
+        handler = (request: IFakeRequest): {} => {
+            assert.strictEqual(`${request.method} ${request.url}`, "POST /graphql");
+            assert.deepStrictEqual(JSON.parse(request.body).variables, { titleSlug: "two-sum" });
+            return { data: { question } };
+        };
+        assert.deepStrictEqual(await client.getQuestion("two-sum"), question);
+        // The question is cached
+        assert.deepStrictEqual(await client.getQuestion("two-sum"), question);
+        assert.strictEqual(requests.length, 1);
+    });
+
+    test("getQuestion of a missing question", async () => {
+        handler = (): {} => ({ data: { question: null } });
+        await assertRejects(client.getQuestion("missing"), /does not exist/);
+    });
+
+    test("submit and poll the result", async () => {
+        const checks: ICheckResponse[] = [
+            { state: "PENDING" },
+            { state: "STARTED" },
+            {
+                state: "SUCCESS",
+                status_msg: "Accepted",
+                total_correct: 57,
+                total_testcases: 57,
+                status_runtime: "76 ms",
+                runtime_percentile: 92.8,
+                status_memory: "34.8 MB",
+                memory_percentile: 61.19,
+            },
+        ];
+        handler = (request: IFakeRequest): {} => {
+            switch (`${request.method} ${request.url}`) {
+                case "POST /problems/two-sum/submit/":
+                    assert.deepStrictEqual(JSON.parse(request.body), { lang: "javascript", question_id: "1", typed_code: "code" });
+                    return { submission_id: 42 };
+                case "GET /submissions/detail/42/check/":
+                    return checks.shift()!;
+                default:
+                    throw new Error(`Unexpected request: ${request.method} ${request.url}`);
+            }
+        };
+        const id: string = await client.submit(question, "javascript", "code");
+        const result: ISubmissionResult = await client.waitForResult(id, 10);
+        assert.strictEqual(requests.length, 4);
+        assert.deepStrictEqual(result, {
+            status: SubmissionStatus.Accepted,
+            accepted: true,
+            messages: ["Accepted", "57/57 cases passed"],
+            passedCases: 57,
+            totalCases: 57,
+            runtime: "76 ms",
+            runtimePercentile: 92.8,
+            memory: "34.8 MB",
+            memoryPercentile: 61.19,
+            details: {},
+            input: undefined,
+            actualOutput: undefined,
+            expectedOutput: undefined,
+            stdout: undefined,
+            compileError: undefined,
+            runtimeError: undefined,
+            errorLocations: [],
+        });
+    });
+
+    test("testSolution with the example test cases", async () => {
+        handler = (request: IFakeRequest): {} => {
+            switch (`${request.method} ${request.url}`) {
+                case "GET /api/problems/all/":
+                    return problemList;
+                case "POST /graphql":
+                    return { data: { question } };
+                case "POST /problems/two-sum/interpret_solution/":
+                    assert.strictEqual(JSON.parse(request.body).data_input, question.exampleTestcases);
+                    return { interpret_id: "runcode_1" };
+                case "GET /submissions/detail/runcode_1/check/":
+                    return {
+                        state: "SUCCESS",
+                        status_msg: "Accepted",
+                        correct_answer: false,
+                        status_runtime: "4 ms",
+                        code_answer: ["[0,0]"],
+                        expected_code_answer: ["[0,1]"],
+                    };
+                default:
+                    throw new Error(`Unexpected request: ${request.method} ${request.url}`);
+            }
+        };
+        const result: ISubmissionResult = await client.testSolution("1", "javascript", "code");
+        assert.strictEqual(result.status, SubmissionStatus.WrongAnswer);
+        assert.strictEqual(result.accepted, false);
+        assert.strictEqual(result.runtime, "4 ms");
+        assert.strictEqual(result.input, question.exampleTestcases);
+        assert.strictEqual(result.actualOutput, "[0,0]");
+        assert.strictEqual(result.expectedOutput, "[0,1]");
+    });
+
+    test("Request failed with the status code", async () => {
+        const failing: LeetCodeClient = new LeetCodeClient({
+            request: async (): Promise<IHttpResponse> => ({ statusCode: 403, headers: {}, body: "" }),
+        });
+        await assertRejects(failing.listProblems(), /status code "403"/);
+    });
+
+    test("Retry the request once the expired session is renewed", async () => {
+        const statusCodes: number[] = [403, 200];
+        const renewing: LeetCodeClient = new LeetCodeClient({
+            request: async (): Promise<IHttpResponse> => ({ statusCode: statusCodes.shift()!, headers: {}, body: JSON.stringify({ data: { question } }) }),
+        });
+        renewing.setCredentials({ session: "session-value", csrfToken: "csrf-value" });
+        let renewals: number = 0;
+        renewing.setSessionExpiredHandler(async (): Promise<boolean> => ++renewals > 0);
+        assert.deepStrictEqual(await renewing.getQuestion("two-sum"), question);
+        assert.strictEqual(renewals, 1);
+    });
+
+    test("Request failed if the expired session is not renewed", async () => {
+        const expired: LeetCodeClient = new LeetCodeClient({
+            request: async (): Promise<IHttpResponse> => ({ statusCode: 403, headers: {}, body: "" }),
+        });
+        expired.setCredentials({ session: "session-value", csrfToken: "csrf-value" });
+        expired.setSessionExpiredHandler(async (): Promise<boolean> => false);
+        await assertRejects(expired.listProblems(), /status code "403"/);
+    });
+
+    test("Request timed out", async () => {
+        handler = (): undefined => undefined;
+        const transport: NodeTransport = new NodeTransport(100);
+        await assertRejects(transport.request({ method: "GET", url: `${serverUrl}/stalled`, headers: {} }), /timed out after 100 ms/);
+    });
+});
@@ -0,0 +1,315 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { IErrorLocation, ISubmissionResult, SubmissionStatus } from "../src/shared";
+import { parseErrorLocations, parseSubmissionResult, parseSubmissionStatus } from "../src/utils/resultUtils";
+
+// The outputs of the CLI captured from "leetcode submit" and "leetcode test"
+function loadFixture(name: string): string {
+    return fse.readFileSync(path.join(__dirname, "..", "..", "test", "fixtures", "cli", name), "utf8");
+}
+
+suite("parseSubmissionResult", () => {
+    test("Accepted", () => {
+        const expected: ISubmissionResult = {
+            status: SubmissionStatus.Accepted,
+            accepted: true,
+            messages: [
+                "Accepted",
+                "57/57 cases passed (76 ms)",
+                "Your runtime beats 92.8 % of javascript submissions",
+                "Your memory usage beats 61.19 % of javascript submissions (34.8 MB)",
+            ],
+            passedCases: 57,
+            totalCases: 57,
+            runtime: "76 ms",
+            runtimePercentile: 92.8,
+            memory: "34.8 MB",
+            memoryPercentile: 61.19,
+            details: {},
+            errorLocations: [],
+        };
+        assert.deepStrictEqual(parseSubmissionResult(loadFixture("submit-accepted.txt")), expected);
+    });
+
+    test("Wrong Answer", () => {
+        const expected: ISubmissionResult = {
+            status: SubmissionStatus.WrongAnswer,
+            accepted: false,
+            messages: ["Wrong Answer", "37/57 cases passed (N/A)"],
+            passedCases: 37,
+            totalCases: 57,
+            input: "'[3,2,4]\\n6'",
+            actualOutput: "[0,0]",
+            expectedOutput: "[1,2]",
+            stdout: "checking 3\n checking 2",
+            details: {
+                testcase: ["'[3,2,4]\\n6'"],
+                answer: ["[0,0]"],
+                expected_answer: ["[1,2]"],
+                stdout: ["checking 3\n checking 2"],
+            },
+            errorLocations: [],
+        };
+        assert.deepStrictEqual(parseSubmissionResult(loadFixture("submit-wrong-answer.txt")), expected);
+    });
+
+    test("Runtime Error", () => {
+        const error: string = [
+            "IndexError: list index out of range",
+            "    return [seen[target - num], i]",
+            "Line 6 in twoSum (Solution.py)",
+            "    ret = Solution().twoSum(param_1, param_2)",
+            "Line 31 in _driver (Solution.py)",
+            "    _driver()",
+            "Line 42 in <module> (Solution.py)",
+        ].join("\n");
+        const expected: ISubmissionResult = {
+            status: SubmissionStatus.RuntimeError,
+            accepted: false,
+            messages: ["Runtime Error", "0/57 cases passed (N/A)"],
+            passedCases: 0,
+            totalCases: 57,
+            input: "'[3,3]\\n6'",
+            runtimeError: error,
+            details: {
+                error: [error],
+                testcase: ["'[3,3]\\n6'"],
+            },
+            errorLocations: [
+                { line: 6, column: undefined, message: "IndexError: list index out of range", isWarning: false },
+            ],
+        };
+        assert.deepStrictEqual(parseSubmissionResult(loadFixture("submit-runtime-error.txt")), expected);
+    });
+
+    test("Compile Error", () => {
+        const summary: string = "Line 5: Char 16: error: use of undeclared identifier 'sum'";
+        const full: string = `${summary}\n        return sum;\n               ^`;
+        const expected: ISubmissionResult = {
+            status: SubmissionStatus.CompileError,
+            accepted: false,
+            messages: ["Compile Error", "0/0 cases passed (N/A)"],
+            passedCases: 0,
+            totalCases: 0,
+            compileError: `${summary}\n${full}`,
+            details: {
+                error: [summary, full],
+            },
+            errorLocations: [
+                { line: 5, column: 16, message: "error: use of undeclared identifier 'sum'", isWarning: false },
+            ],
+        };
+        assert.deepStrictEqual(parseSubmissionResult(loadFixture("submit-compile-error.txt")), expected);
+    });
+
+    const limitCases: Array<[string, string, ISubmissionResult]> = [
+        ["Time Limit Exceeded", "submit-time-limit-exceeded.txt", {
+            status: SubmissionStatus.TimeLimitExceeded,
+            accepted: false,
+            messages: ["Time Limit Exceeded", "54/57 cases passed (N/A)"],
+            passedCases: 54,
+            totalCases: 57,
+            input: "'[1,2,3,4,5]\\n9'",
+            expectedOutput: "[3,4]",
+            details: {
+                testcase: ["'[1,2,3,4,5]\\n9'"],
+                expected_answer: ["[3,4]"],
+            },
+            errorLocations: [],
+        }],
+        ["Memory Limit Exceeded", "submit-memory-limit-exceeded.txt", {
+            status: SubmissionStatus.MemoryLimitExceeded,
+            accepted: false,
+            messages: ["Memory Limit Exceeded", "21/57 cases passed (N/A)"],
+            passedCases: 21,
+            totalCases: 57,
+            input: "'[5,1,7]\\n8'",
+            expectedOutput: "[1,2]",
+            details: {
+                testcase: ["'[5,1,7]\\n8'"],
+                expected_answer: ["[1,2]"],
+            },
+            errorLocations: [],
+        }],
+        ["Output Limit Exceeded", "submit-output-limit-exceeded.txt", {
+            status: SubmissionStatus.OutputLimitExceeded,
+            accepted: false,
+            messages: ["Output Limit Exceeded", "2/57 cases passed (N/A)"],
+            passedCases: 2,
+            totalCases: 57,
+            input: "'[2,7,11,15]\\n9'",
+            actualOutput: "[0,1]",
+            expectedOutput: "[0,1]",
+            stdout: "debug 0\ndebug 1",
+            details: {
+                testcase: ["'[2,7,11,15]\\n9'"],
+                answer: ["[0,1]"],
+                expected_answer: ["[0,1]"],
+                stdout: ["debug 0\ndebug 1"],
+            },
+            errorLocations: [],
+        }],
+    ];
+    for (const [name, fixture, expected] of limitCases) {
+        test(name, () => {
+            assert.deepStrictEqual(parseSubmissionResult(loadFixture(fixture)), expected);
+        });
+    }
+
+    test("Test run passed", () => {
+        const expected: ISubmissionResult = {
+            status: SubmissionStatus.Accepted,
+            accepted: true,
+            messages: ["Finished"],
+            runtime: "0 ms",
+            input: "[2,7,11,15]\n9",
+            actualOutput: "[0,1]",
+            expectedOutput: "[0,1]",
+            details: {
+                "Your Input": ["[2,7,11,15]\n9"],
+                "Output (0 ms)": ["[0,1]"],
+                "Expected Answer": ["[0,1]"],
+            },
+            errorLocations: [],
+        };
+        assert.deepStrictEqual(parseSubmissionResult(loadFixture("test-pass.txt")), expected);
+    });
+
+    test("Test run failed", () => {
+        const expected: ISubmissionResult = {
+            status: SubmissionStatus.WrongAnswer,
+            accepted: false,
+            messages: ["Finished"],
+            runtime: "4 ms",
+            input: "[3,2,4]\n6",
+            actualOutput: "[0,0]",
+            expectedOutput: "[1,2]",
+            stdout: "visited 0",
+            details: {
+                "Your Input": ["[3,2,4]\n6"],
+                "Output (4 ms)": ["[0,0]"],
+                "Expected Answer": ["[1,2]"],
+                "Stdout": ["visited 0"],
+            },
+            errorLocations: [],
+        };
+        assert.deepStrictEqual(parseSubmissionResult(loadFixture("test-fail.txt")), expected);
+    });
+
+    test("Test run failed with the Windows marks and line endings", () => {
+        const expected: ISubmissionResult = {
+            status: SubmissionStatus.WrongAnswer,
+            accepted: false,
+            messages: ["Finished"],
+            runtime: "8 ms",
+            input: "[3,2,4]\n6",
+            actualOutput: "[0,0]",
+            expectedOutput: "[1,2]",
+            details: {
+                "Your Input": ["[3,2,4]\n6"],
+                "Output (8 ms)": ["[0,0]"],
+                "Expected Answer": ["[1,2]"],
+            },
+            errorLocations: [],
+        };
+        assert.deepStrictEqual(parseSubmissionResult(loadFixture("test-fail-windows.txt")), expected);
+    });
+});
+
+suite("parseSubmissionStatus", () => {
+    test("Every verdict", () => {
+        for (const key of Object.keys(SubmissionStatus)) {
+            const status: SubmissionStatus = SubmissionStatus[key as keyof typeof SubmissionStatus];
+            assert.strictEqual(parseSubmissionStatus(status), status);
+        }
+    });
+
+    test("Case and whitespace insensitive", () => {
+        assert.strictEqual(parseSubmissionStatus("  wrong answer\n"), SubmissionStatus.WrongAnswer);
+    });
+
+    test("Unknown message", () => {
+        assert.strictEqual(parseSubmissionStatus("Finished"), SubmissionStatus.Unknown);
+    });
+});
+
+suite("parseErrorLocations", () => {
+    const cases: Array<[string, string[], IErrorLocation[]]> = [
+        ["JavaScript stack trace", [
+            "TypeError: Cannot read property 'length' of undefined",
+            "    Line 4: Char 28 in solution.js (twoSum)",
+            "    Line 25: Char 19 in solution.js (Object.<anonymous>)",
+            "    Line 16: Char 8 in runner.js (Object.runner)",
+        ], [
+            { line: 4, column: 28, message: "TypeError: Cannot read property 'length' of undefined", isWarning: false },
+        ]],
+        ["Python stack trace", [
+            "NameError: name 'x' is not defined",
+            "    return x",
+            "Line 5 in twoSum (Solution.py)",
+            "    ret = Solution().twoSum(param_1, param_2)",
+            "Line 29 in _driver (Solution.py)",
+            "Line 40 in <module> (Solution.py)",
+        ], [
+            { line: 5, column: undefined, message: "NameError: name 'x' is not defined", isWarning: false },
+        ]],
+        ["Python traceback", [
+            "Traceback (most recent call last):",
+            "  File \"prog_joined.py\", line 25, in <module>",
+            "  File \"solution.py\", line 5, in twoSum",
+            "NameError: name 'x' is not defined",
+        ], [
+            { line: 5, column: undefined, message: "NameError: name 'x' is not defined", isWarning: false },
+        ]],
+        ["Java stack trace", [
+            "java.lang.ArrayIndexOutOfBoundsException: Index 3 out of bounds for length 3",
+            "  at line 5, Solution.twoSum",
+            "  at line 54, __DriverSolution__.__helper__",
+            "  at line 84, __Driver__.main",
+        ], [
+            { line: 5, column: undefined, message: "java.lang.ArrayIndexOutOfBoundsException: Index 3 out of bounds for length 3", isWarning: false },
+        ]],
+        ["Clang compile error", [
+            "Line 5: Char 16: error: use of undeclared identifier 'sum'",
+            "        return sum;",
+            "               ^",
+        ], [
+            { line: 5, column: 16, message: "error: use of undeclared identifier 'sum'", isWarning: false },
+        ]],
+        ["Java compile error", [
+            "Line 3: error: ';' expected",
+            "        int n = nums.length",
+            "                           ^",
+        ], [
+            { line: 3, column: undefined, message: "error: ';' expected", isWarning: false },
+        ]],
+        ["GCC warning and error", [
+            "solution.cpp:5:9: warning: unused variable 'n' [-Wunused-variable]",
+            "solution.cpp:7:16: error: 'sum' was not declared in this scope",
+        ], [
+            { line: 5, column: 9, message: "warning: unused variable 'n' [-Wunused-variable]", isWarning: true },
+            { line: 7, column: 16, message: "error: 'sum' was not declared in this scope", isWarning: false },
+        ]],
+        ["Rust compile error", [
+            "error[E0425]: cannot find value `x` in this scope",
+            " --> src/main.rs:5:9",
+            "  |",
+            "5 |         x",
+            "  |         ^ not found in this scope",
+        ], [
+            { line: 5, column: 9, message: "error[E0425]: cannot find value `x` in this scope", isWarning: false },
+        ]],
+        ["No location", [
+            "",
+        ], []],
+    ];
+    for (const [name, output, expected] of cases) {
+        test(name, () => {
+            assert.deepStrictEqual(parseErrorLocations(output.join("\n")), expected);
+        });
+    }
+});
@@ -0,0 +1,42 @@
+// Copyright (c) jdneo. All rights reserved.
+// Licensed under the MIT license.
+
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { appendTestCase, getTestCaseFilePath, getTestInput } from "../src/utils/testCaseUtils";
+
+suite("appendTestCase", () => {
+    let folder: string;
+    let solutionPath: string;
+
+    setup(async () => {
+        folder = await fse.mkdtemp(path.join(os.tmpdir(), "leetcode-test-cases-"));
+        solutionPath = path.join(folder, "1.two-sum.js");
+        await fse.writeFile(getTestCaseFilePath(solutionPath), ["# Test cases of problem 1", "[2,7,11,15]", "9", "[3,2,4]", "6", ""].join("\n"));
+    });
+
+    teardown(async () => {
+        await fse.remove(folder);
+    });
+
+    async function readInput(): Promise<string> {
+        return getTestInput(await fse.readFile(getTestCaseFilePath(solutionPath), "utf8"));
+    }
+
+    test("Skip the saved case", async () => {
+        await appendTestCase(solutionPath, "[3,2,4]\n6", 2);
+        assert.strictEqual(await readInput(), "[2,7,11,15]\n9\n[3,2,4]\n6");
+    });
+
+    test("Append the case which spans the boundary of the saved cases", async () => {
+        await appendTestCase(solutionPath, "9\n[3,2,4]");
+        assert.strictEqual(await readInput(), "[2,7,11,15]\n9\n[3,2,4]\n6\n9\n[3,2,4]");
+    });
+
+    test("Append only the new cases", async () => {
+        await appendTestCase(solutionPath, "[2,7,11,15]\n9\n[3,3]\n6", 2);
+        assert.strictEqual(await readInput(), "[2,7,11,15]\n9\n[3,2,4]\n6\n[3,3]\n6");
+    });
+});